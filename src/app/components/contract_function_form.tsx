@@ -1,11 +1,31 @@
-import { CONTRACT_ADDRESS_PARAM_NAMES, pxe } from '../../config.js';
-import { callContractFunction, deployContract, viewContractFunction } from '../../scripts/index.js';
+import {
+  AMOUNT_PARAM_NAMES,
+  CONTRACT_ADDRESS_PARAM_NAMES,
+  MINT_FUNCTION_NAMES,
+  SHORT_STRING_PARAM_NAMES,
+  pxe,
+} from '../../config.js';
+import {
+  MAX_SHORT_STRING_LENGTH,
+  SimulationResult,
+  TokenMetadata,
+  callContractFunction,
+  deployContract,
+  describeError,
+  encodeShortString,
+  formatAmount,
+  parseAmount,
+  simulateContractFunction,
+  viewContractFunction,
+} from '../../scripts/index.js';
 import { convertArgs } from '../../scripts/util.js';
 import styles from './contract_function_form.module.scss';
-import { Button, Loader } from '@aztec/aztec-ui';
+import { SimulationPreview } from './simulation_preview.js';
+import { Button, ButtonTheme, Loader } from '@aztec/aztec-ui';
 import { AztecAddress, CompleteAddress, Fr } from '@aztec/aztec.js';
 import { ContractArtifact, FunctionArtifact } from '@aztec/foundation/abi';
 import { useFormik } from 'formik';
+import { useEffect, useState } from 'react';
 import * as Yup from 'yup';
 
 const DEFAULT_FIELD_VALUE = 100;
@@ -42,6 +62,11 @@ function generateYupDefaultValue(param: any, defaultAddress: string) {
   if (CONTRACT_ADDRESS_PARAM_NAMES.includes(param.name)) {
     // these are actually fields, which should be numbers, but yup doesn't support bigint so we convert back to bigint on execution
     return { yupType: Yup.string().required(), defaultValue: defaultAddress };
+  } else if (AMOUNT_PARAM_NAMES.includes(param.name)) {
+    // parsed on submit, as the token decimals are needed
+    return { yupType: Yup.string().required(), defaultValue: `${DEFAULT_FIELD_VALUE}` };
+  } else if (SHORT_STRING_PARAM_NAMES.includes(param.name)) {
+    return { yupType: Yup.string().required().max(MAX_SHORT_STRING_LENGTH), defaultValue: '' };
   } else if (param.type.kind === 'field') {
     return { yupType: Yup.number().required(), defaultValue: DEFAULT_FIELD_VALUE };
   } else if (param.type.kind === 'array') {
@@ -61,6 +86,8 @@ function generateYupDefaultValue(param: any, defaultAddress: string) {
     };
   } else if (param.type.kind === 'boolean') {
     return { yupType: Yup.boolean().required(), defaultValue: false };
+  } else if (param.type.kind === 'integer') {
+    return { yupType: Yup.number().integer().min(0).required(), defaultValue: 0 };
   } else {
     throw new Error('Unsupported type', param);
   }
@@ -71,7 +98,7 @@ function generateYupSchema(functionAbi: FunctionArtifact, defaultAddress: string
   const initialValues: NoirFunctionFormValues = {};
   for (const param of functionAbi.parameters) {
     // use helper function for non struct-types
-    if (['field', 'array', 'boolean'].includes(param.type.kind)) {
+    if (['field', 'array', 'boolean', 'integer'].includes(param.type.kind)) {
       const { yupType, defaultValue } = generateYupDefaultValue(param, defaultAddress);
       parameterSchema[param.name] = yupType;
       initialValues[param.name] = defaultValue;
@@ -94,15 +121,32 @@ function generateYupSchema(functionAbi: FunctionArtifact, defaultAddress: string
   return { validationSchema: Yup.object().shape(parameterSchema), initialValues };
 }
 
+// Converts the amounts and strings entered in the form into the field values expected by the contract.
+// When deploying, amounts use the decimals and symbol entered for the new token.
+function parseFormArgs(functionAbi: FunctionArtifact, args: any, metadata?: TokenMetadata) {
+  const units =
+    functionAbi.name === 'constructor' ? { decimals: Number(args.decimals), symbol: args.symbol } : metadata;
+  const parsedArgs = { ...args };
+  for (const { name } of functionAbi.parameters) {
+    if (AMOUNT_PARAM_NAMES.includes(name)) {
+      parsedArgs[name] = parseAmount(String(args[name]), units?.decimals ?? 0, units?.symbol);
+    } else if (SHORT_STRING_PARAM_NAMES.includes(name)) {
+      parsedArgs[name] = encodeShortString(args[name]).toBigInt();
+    }
+  }
+  return parsedArgs;
+}
+
 async function handleFunctionCall(
   contractAddress: AztecAddress | undefined,
   artifact: ContractArtifact,
   functionName: string,
   args: any,
   wallet: CompleteAddress,
+  metadata?: TokenMetadata,
 ) {
   const functionAbi = artifact.functions.find(f => f.name === functionName)!;
-  const typedArgs: any[] = convertArgs(functionAbi, args);
+  const typedArgs: any[] = convertArgs(functionAbi, parseFormArgs(functionAbi, args, metadata));
 
   if (functionName === 'constructor' && !!wallet) {
     if (functionAbi === undefined) {
@@ -130,6 +174,8 @@ interface ContractFunctionFormProps {
   contractAddress?: AztecAddress;
   artifact: ContractArtifact;
   functionAbi: FunctionArtifact;
+  // used to parse and format amounts, unknown until the token is deployed
+  metadata?: TokenMetadata;
   defaultAddress: string;
   title?: string;
   buttonText?: string;
@@ -145,6 +191,7 @@ export function ContractFunctionForm({
   contractAddress,
   artifact,
   functionAbi,
+  metadata,
   defaultAddress,
   buttonText = 'Submit',
   isLoading,
@@ -154,19 +201,53 @@ export function ContractFunctionForm({
   onError,
 }: ContractFunctionFormProps) {
   const { validationSchema, initialValues } = generateYupSchema(functionAbi, defaultAddress);
+  const [remainingQuota, setRemainingQuota] = useState<bigint | undefined>();
+  const [simulation, setSimulation] = useState<SimulationResult | undefined>();
+  const [isSimulating, setSimulating] = useState(false);
+  // only calls to a deployed token go through the simulation, views and deployments run as they are
+  const canSimulate = !!contractAddress && functionAbi.functionType !== 'unconstrained';
+
+  // refreshed once a call completes, as minting uses up the quota
+  useEffect(() => {
+    if (!contractAddress || !MINT_FUNCTION_NAMES.includes(functionAbi.name) || isLoading) {
+      return;
+    }
+    viewContractFunction(contractAddress, artifact, 'remaining_mint_quota', [wallet.address], pxe, wallet)
+      .then(setRemainingQuota)
+      .catch(() => setRemainingQuota(undefined));
+  }, [contractAddress, artifact, functionAbi.name, isLoading, wallet]);
+
   const formik = useFormik({
     initialValues: initialValues,
     validationSchema: validationSchema,
     onSubmit: async (values: any) => {
+      setSimulation(undefined);
       onSubmit();
       try {
-        const result = await handleFunctionCall(contractAddress, artifact, functionAbi.name, values, wallet);
+        const result = await handleFunctionCall(contractAddress, artifact, functionAbi.name, values, wallet, metadata);
         onSuccess(result);
-      } catch (e: any) {
-        onError(e.message);
+      } catch (e) {
+        onError(describeError(e, functionAbi.name));
       }
     },
   });
+
+  const handleSimulate = async () => {
+    const errors = await formik.validateForm();
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+    setSimulating(true);
+    try {
+      const args = parseFormArgs(functionAbi, formik.values, metadata);
+      setSimulation(await simulateContractFunction(contractAddress!, artifact, functionAbi.name, args, pxe, wallet));
+    } catch (e) {
+      onError(describeError(e));
+    } finally {
+      setSimulating(false);
+    }
+  };
+
   return (
     <form onSubmit={formik.handleSubmit} className={styles.content}>
       {functionAbi.parameters.map(input => (
@@ -215,10 +296,29 @@ export function ContractFunctionForm({
           )}
         </div>
       ))}
-      {isLoading ? (
+      {remainingQuota !== undefined && (
+        <div className={styles.quota}>
+          Remaining mint quota:{' '}
+          {metadata ? formatAmount(remainingQuota, metadata.decimals, metadata.symbol) : remainingQuota.toString()}
+        </div>
+      )}
+      {simulation && <SimulationPreview simulation={simulation} metadata={metadata} />}
+      {isLoading || isSimulating ? (
         <Loader />
       ) : (
-        <Button disabled={disabled} text={buttonText} className={styles.actionButton} type="submit" />
+        <div className={styles.actions}>
+          {canSimulate && (
+            <Button
+              disabled={disabled}
+              text="Simulate"
+              className={styles.actionButton}
+              theme={ButtonTheme.Secondary}
+              type="button"
+              onClick={handleSimulate}
+            />
+          )}
+          <Button disabled={disabled} text={buttonText} className={styles.actionButton} type="submit" />
+        </div>
       )}
     </form>
   );
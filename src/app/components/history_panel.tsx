@@ -0,0 +1,108 @@
+import { pxe } from '../../config.js';
+import {
+  HistoryEntry,
+  HistoryService,
+  TokenMetadata,
+  formatAmount,
+  historyToCSV,
+  historyToJSON,
+} from '../../scripts/index.js';
+import styles from './history_panel.module.scss';
+import { Button, ButtonSize, ButtonTheme, Loader } from '@aztec/aztec-ui';
+import { AztecAddress, CompleteAddress } from '@aztec/aztec.js';
+import { useEffect, useMemo, useState } from 'react';
+
+interface Props {
+  wallet: CompleteAddress;
+  contractAddress: AztecAddress;
+  metadata?: TokenMetadata;
+  // the history is synced again whenever it changes, e.g. after every call
+  refreshKey?: string;
+}
+
+function download(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function HistoryPanel({ wallet, contractAddress, metadata, refreshKey }: Props) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setLoading] = useState(false);
+  const [errorMsg, setError] = useState('');
+
+  // the service remembers the notes it has seen, so it lives as long as the wallet and contract don't change
+  const history = useMemo(() => new HistoryService(pxe, contractAddress, wallet.address), [contractAddress, wallet]);
+
+  useEffect(() => {
+    setLoading(true);
+    history
+      .sync()
+      .then(() => history.getEntries())
+      .then(entries => {
+        setEntries(entries);
+        setError('');
+      })
+      .catch(err => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [history, refreshKey]);
+
+  const format = (amount: bigint) =>
+    metadata ? formatAmount(amount, metadata.decimals, metadata.symbol) : `${amount}`;
+  const filename = `history-${wallet.address.toShortString()}`;
+
+  return (
+    <div className={styles.history}>
+      <div className={styles.header}>
+        <div className={styles.title}>Private history</div>
+        {isLoading && <Loader />}
+      </div>
+      {errorMsg && <div className={styles.error}>{errorMsg}</div>}
+      {entries.length === 0 ? (
+        <div className={styles.empty}>No transactions yet</div>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Block</th>
+              <th>Tx</th>
+              <th>Kind</th>
+              <th>Amount</th>
+              <th>Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.txHash.toString()}>
+                <td>{entry.blockNumber}</td>
+                <td>{`${entry.txHash.toString().slice(0, 10)}…`}</td>
+                <td>{entry.kind}</td>
+                <td className={entry.amount < 0n ? styles.out : styles.in}>{format(entry.amount)}</td>
+                <td>{format(entry.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className={styles.actions}>
+        <Button
+          text="Export CSV"
+          size={ButtonSize.Small}
+          theme={ButtonTheme.Secondary}
+          disabled={entries.length === 0}
+          onClick={() => download(historyToCSV(entries), `${filename}.csv`, 'text/csv')}
+        />
+        <Button
+          text="Export JSON"
+          size={ButtonSize.Small}
+          theme={ButtonTheme.Secondary}
+          disabled={entries.length === 0}
+          onClick={() => download(historyToJSON(entries), `${filename}.json`, 'application/json')}
+        />
+      </div>
+    </div>
+  );
+}
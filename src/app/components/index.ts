@@ -1,2 +1,4 @@
 export * from './contract_function_form.js';
+export * from './history_panel.js';
 export * from './popup.js';
+export * from './simulation_preview.js';
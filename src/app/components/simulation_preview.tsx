@@ -0,0 +1,60 @@
+import { SimulationResult, TokenMetadata, formatAmount } from '../../scripts/index.js';
+import styles from './simulation_preview.module.scss';
+
+interface Props {
+  simulation: SimulationResult;
+  metadata?: TokenMetadata;
+}
+
+// What a call would do if sent now, as simulated by the PXE.
+export function SimulationPreview({ simulation, metadata }: Props) {
+  const format = (amount: bigint) =>
+    metadata ? formatAmount(amount, metadata.decimals, metadata.symbol) : `${amount}`;
+
+  if (!simulation.success) {
+    return (
+      <div className={styles.preview}>
+        <div className={styles.title}>Simulation reverted</div>
+        <div className={styles.error}>{simulation.revertReason}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.preview}>
+      <div className={styles.title}>Simulation succeeded</div>
+      {simulation.warning && <div className={styles.warning}>{simulation.warning}</div>}
+      {simulation.balanceChanges.length > 0 && (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>Account</th>
+              <th>Balance</th>
+              <th>Change</th>
+              <th>After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {simulation.balanceChanges.map(change => (
+              <tr key={`${change.owner}-${change.kind}`}>
+                <td>{change.owner.toShortString()}</td>
+                <td>{change.kind}</td>
+                <td className={change.amount < 0n ? styles.out : styles.in}>
+                  {change.amount > 0n ? '+' : ''}
+                  {format(change.amount)}
+                </td>
+                <td>{change.after === undefined ? 'unknown' : format(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div className={styles.notes}>
+        {`Notes created: ${simulation.createdNotes}, nullified: ${simulation.nullifiedNotes}`}
+        {simulation.spentNotes.map((note, index) => (
+          <div key={index}>{`Spends your ${note.type} note of ${format(note.amount)}`}</div>
+        ))}
+      </div>
+    </div>
+  );
+}
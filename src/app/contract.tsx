@@ -1,11 +1,18 @@
-import { FILTERED_FUNCTION_NAMES, contractArtifact } from '../config.js';
+import { FILTERED_FUNCTION_NAMES, SHORT_STRING_PARAM_NAMES, contractArtifact, pxe } from '../config.js';
+import {
+  TokenMetadata,
+  decodeShortString,
+  decodeTokenMetadata,
+  formatAmount,
+  viewContractFunction,
+} from '../scripts/index.js';
 import { Copy } from './components/copy.js';
-import { ContractFunctionForm, Popup } from './components/index.js';
+import { ContractFunctionForm, HistoryPanel, Popup } from './components/index.js';
 import styles from './contract.module.scss';
 import { Button, ButtonSize, ButtonTheme, Card, CardTheme, ImageButton, ImageButtonIcon } from '@aztec/aztec-ui';
 import { AztecAddress, CompleteAddress } from '@aztec/aztec.js';
 import { FunctionArtifact } from '@aztec/foundation/abi';
-import { ReactNode, useState } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
 
 const functionTypeSortOrder = {
   secret: 0,
@@ -13,6 +20,18 @@ const functionTypeSortOrder = {
   unconstrained: 2,
 };
 
+// Renders a return value according to the return type of the function: amounts use the token decimals.
+function formatReturnValue(functionAbi: FunctionArtifact, value: any, metadata?: TokenMetadata) {
+  const [returnType] = functionAbi.returnTypes;
+  if (SHORT_STRING_PARAM_NAMES.includes(functionAbi.name)) {
+    return decodeShortString(value);
+  }
+  if (metadata && returnType?.kind === 'integer' && returnType.width === 120) {
+    return formatAmount(value, metadata.decimals, metadata.symbol);
+  }
+  return `${value}`;
+}
+
 interface Props {
   wallet: CompleteAddress;
 }
@@ -24,15 +43,37 @@ export function Contract({ wallet }: Props) {
   const [errorMsg, setError] = useState('');
   const [selectedFunctionIndex, setSelectedFunctionIndex] = useState<number>(-1);
   const [result, setResult] = useState('');
+  const [isPaused, setPaused] = useState<boolean | undefined>();
+  const [metadata, setMetadata] = useState<TokenMetadata | undefined>();
+
+  useEffect(() => {
+    if (!contractAddress) {
+      return;
+    }
+    const view = (functionName: string) =>
+      viewContractFunction(contractAddress, contractArtifact, functionName, [], pxe, wallet);
+    Promise.all([view('name'), view('symbol'), view('decimals')])
+      .then(([name, symbol, decimals]) => setMetadata(decodeTokenMetadata(name, symbol, decimals)))
+      .catch(() => setMetadata(undefined));
+  }, [contractAddress, wallet]);
+
+  // refreshed after every call, as the call may have paused or unpaused the token
+  useEffect(() => {
+    if (!contractAddress) {
+      return;
+    }
+    viewContractFunction(contractAddress, contractArtifact, 'is_paused', [], pxe, wallet)
+      .then(setPaused)
+      .catch(() => setPaused(undefined));
+  }, [contractAddress, result, wallet]);
 
   const handleSubmitForm = (functionName: string) => setProcessingFunction(functionName);
   const handleContractDeployed = (address: AztecAddress) => {
     setContractAddress(address);
     setResult(`Contract deployed at: ${address}`);
   };
-  const handleResult = (returnValues: any) => {
-    // TODO: serialize returnValues to string according to the returnTypes defined in the function abi.
-    setResult(`Return values: ${returnValues}`);
+  const handleResult = (functionAbi: FunctionArtifact, returnValues: any) => {
+    setResult(`Return values: ${formatReturnValue(functionAbi, returnValues, metadata)}`);
   };
   const handleClosePopup = () => {
     setResult('');
@@ -55,13 +96,18 @@ export function Contract({ wallet }: Props) {
           content: (
             <div className={styles.selectorWrapper}>
               <div className={styles.tag}>
-                <div className={styles.title}>{`${contractArtifact.name}`}</div>
+                <div className={styles.title}>
+                  {metadata ? `${metadata.name} (${metadata.symbol})` : `${contractArtifact.name}`}
+                </div>
                 {!!contractAddress && (
                   <div className={styles.address}>
                     {`${contractAddress.toShortString()}`}
                     <Copy value={contractAddress.toString()} />
                   </div>
                 )}
+                {isPaused !== undefined && (
+                  <div className={isPaused ? styles.paused : styles.active}>{isPaused ? 'Paused' : 'Active'}</div>
+                )}
               </div>
               <div className={styles.functions}>
                 {functions.map((functionAbi: FunctionArtifact, index: number) => (
@@ -74,6 +120,7 @@ export function Contract({ wallet }: Props) {
                   />
                 ))}
               </div>
+              <HistoryPanel wallet={wallet} contractAddress={contractAddress} metadata={metadata} refreshKey={result} />
             </div>
           ),
         };
@@ -98,11 +145,12 @@ export function Contract({ wallet }: Props) {
               contractAddress={contractAddress}
               artifact={contractArtifact}
               functionAbi={selectedFunctionAbi}
+              metadata={metadata}
               defaultAddress={wallet.address.toString()}
               isLoading={processingFunction === selectedFunctionAbi.name && !hasResult}
               disabled={processingFunction === selectedFunctionAbi.name && hasResult}
               onSubmit={() => handleSubmitForm(selectedFunctionAbi.name)}
-              onSuccess={handleResult}
+              onSuccess={result => handleResult(selectedFunctionAbi, result)}
               onError={setError}
             />
           </>
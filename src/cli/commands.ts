@@ -0,0 +1,286 @@
+import { contractArtifact } from '../config.js';
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import {
+  EscrowClient,
+  ShieldManager,
+  TokenMetadata,
+  callContractFunction,
+  decodeTokenMetadata,
+  deployContract,
+  encodeShortString,
+  formatAmount,
+  getWallet,
+  parseAmount,
+  viewContractFunction,
+} from '../scripts/index.js';
+import { assertMined, convertArgs } from '../scripts/util.js';
+import { AztecAddress, CompleteAddress, Fr, PXE } from '@aztec/aztec.js';
+
+export interface CliContext {
+  pxe: PXE;
+  // the account sending txs and calling views
+  from: CompleteAddress;
+  tokenAddress?: AztecAddress;
+  // `--public`, for commands that default to the private balance
+  isPublic: boolean;
+}
+
+export interface Command {
+  usage: string;
+  description: string;
+  run(context: CliContext, args: string[]): Promise<Record<string, any>>;
+}
+
+// Thrown for invalid command lines, printed along with the usage of the command.
+export class UsageError extends Error {}
+
+function getTokenAddress(context: CliContext) {
+  if (!context.tokenAddress) {
+    throw new UsageError('--token (or TOKEN_ADDRESS) must be set');
+  }
+  return context.tokenAddress;
+}
+
+function getArgs(args: string[], names: string[], optional: string[] = []) {
+  if (args.length < names.length || args.length > names.length + optional.length) {
+    throw new UsageError(`Expected ${[...names, ...optional.map(name => `[${name}]`)].join(' ')}`);
+  }
+  return args;
+}
+
+function parseAddress(value: string) {
+  try {
+    return AztecAddress.fromString(value);
+  } catch {
+    throw new UsageError(`Invalid address "${value}"`);
+  }
+}
+
+// `decimals` is a u8 in the contract.
+const MAX_DECIMALS = 255n;
+
+// Non-negative integers such as decimals or block numbers.
+function parseInteger(value: string, name: string, max?: bigint) {
+  if (!/^\d+$/.test(value) || (max !== undefined && BigInt(value) > max)) {
+    throw new UsageError(`Invalid ${name} "${value}"`);
+  }
+  return BigInt(value);
+}
+
+function view(context: CliContext, functionName: string, args: any[] = []) {
+  return viewContractFunction(
+    getTokenAddress(context),
+    contractArtifact,
+    functionName,
+    args,
+    context.pxe,
+    context.from,
+  );
+}
+
+async function send(context: CliContext, functionName: string, args: any[]) {
+  const receipt = await callContractFunction(
+    getTokenAddress(context),
+    contractArtifact,
+    functionName,
+    args,
+    context.pxe,
+    context.from,
+  );
+  assertMined(receipt, functionName);
+  return { txHash: receipt.txHash.toString(), blockNumber: receipt.blockNumber };
+}
+
+async function getToken(context: CliContext) {
+  return TokenContract.at(getTokenAddress(context), await getWallet(context.from, context.pxe));
+}
+
+async function getMetadata(context: CliContext): Promise<TokenMetadata> {
+  const [name, symbol, decimals] = await Promise.all([
+    view(context, 'name'),
+    view(context, 'symbol'),
+    view(context, 'decimals'),
+  ]);
+  return decodeTokenMetadata(name, symbol, decimals);
+}
+
+// Amounts are entered in token units ("12.5" or "12.5 TKN") and printed both raw and formatted.
+async function getAmountCodec(context: CliContext) {
+  const { decimals, symbol } = await getMetadata(context);
+  return {
+    parse: (input: string) => parseAmount(input, decimals, symbol),
+    format: (amount: bigint) => ({ raw: `${amount}`, formatted: formatAmount(amount, decimals, symbol) }),
+  };
+}
+
+export const COMMANDS: Record<string, Command> = {
+  deploy: {
+    usage: 'deploy <name> <symbol> <decimals> <max-supply> [admin]',
+    description: 'Deploys a token, administered by the sender unless an admin is given',
+    async run(context, args) {
+      const [name, symbol, decimals, maxSupply, admin] = getArgs(
+        args,
+        ['name', 'symbol', 'decimals', 'max-supply'],
+        ['admin'],
+      );
+      const tokenDecimals = Number(parseInteger(decimals, 'decimals', MAX_DECIMALS));
+      const constructorAbi = contractArtifact.functions.find(f => f.name === 'constructor')!;
+      // in the order of the constructor parameters: admin, max_supply, name, symbol, decimals
+      const values = [
+        { inner: (admin ? parseAddress(admin) : context.from.address).toString() },
+        parseAmount(maxSupply, tokenDecimals, symbol),
+        encodeShortString(name).toBigInt(),
+        encodeShortString(symbol).toBigInt(),
+        tokenDecimals,
+      ];
+      const typedArgs = convertArgs(
+        constructorAbi,
+        Object.fromEntries(constructorAbi.parameters.map((param, i) => [param.name, values[i]])),
+      );
+      const address = await deployContract(context.from, contractArtifact, typedArgs, Fr.random(), context.pxe);
+      return { address: address.toString() };
+    },
+  },
+
+  mint: {
+    usage: 'mint <to> <amount>',
+    description: 'Mints to the public balance of an account',
+    async run(context, args) {
+      const [to, amount] = getArgs(args, ['to', 'amount']);
+      const { parse } = await getAmountCodec(context);
+      return await send(context, 'mint_public', [parseAddress(to), parse(amount)]);
+    },
+  },
+
+  'mint-private': {
+    usage: 'mint-private <amount>',
+    description:
+      'Mints to a pending shield, registered in the PXE of the sender, to be redeemed with the printed secret',
+    async run(context, args) {
+      const [amount] = getArgs(args, ['amount']);
+      const { parse } = await getAmountCodec(context);
+      const shieldManager = new ShieldManager(await getToken(context), await getWallet(context.from, context.pxe));
+      const { secret, secretHash, txHash } = await shieldManager.mintPrivate(parse(amount));
+      return { txHash: txHash?.toString(), secret: secret.toString(), secretHash: secretHash.toString() };
+    },
+  },
+
+  transfer: {
+    usage: 'transfer <to> <amount> [--public]',
+    description: 'Transfers from the private balance of the sender, or its public balance with --public',
+    async run(context, args) {
+      const [to, amount] = getArgs(args, ['to', 'amount']);
+      const { parse } = await getAmountCodec(context);
+      const functionName = context.isPublic ? 'transfer_public' : 'transfer';
+      return await send(context, functionName, [context.from.address, parseAddress(to), parse(amount), 0]);
+    },
+  },
+
+  shield: {
+    usage: 'shield <amount>',
+    description: 'Moves public balance of the sender to a pending shield, to be redeemed with the printed secret',
+    async run(context, args) {
+      const [amount] = getArgs(args, ['amount']);
+      const { parse } = await getAmountCodec(context);
+      const shieldManager = new ShieldManager(await getToken(context), await getWallet(context.from, context.pxe));
+      const { secret, secretHash, txHash } = await shieldManager.shield(context.from.address, parse(amount));
+      return { txHash: txHash?.toString(), secret: secret.toString(), secretHash: secretHash.toString() };
+    },
+  },
+
+  redeem: {
+    usage: 'redeem <amount> <secret> [to]',
+    description:
+      'Redeems a pending shield registered in the PXE of the sender, to the sender unless a recipient is given',
+    async run(context, args) {
+      const [amount, secret, to] = getArgs(args, ['amount', 'secret'], ['to']);
+      const { parse } = await getAmountCodec(context);
+      const recipient = to ? parseAddress(to) : context.from.address;
+      return await send(context, 'redeem_shield', [recipient, parse(amount), Fr.fromString(secret)]);
+    },
+  },
+
+  unshield: {
+    usage: 'unshield <to> <amount>',
+    description: 'Moves private balance of the sender to the public balance of an account',
+    async run(context, args) {
+      const [to, amount] = getArgs(args, ['to', 'amount']);
+      const { parse } = await getAmountCodec(context);
+      return await send(context, 'unshield', [context.from.address, parseAddress(to), parse(amount), 0]);
+    },
+  },
+
+  burn: {
+    usage: 'burn <amount> [--public]',
+    description: 'Burns from the private balance of the sender, or its public balance with --public',
+    async run(context, args) {
+      const [amount] = getArgs(args, ['amount']);
+      const { parse } = await getAmountCodec(context);
+      const functionName = context.isPublic ? 'burn_public' : 'burn';
+      return await send(context, functionName, [context.from.address, parse(amount), 0]);
+    },
+  },
+
+  escrow: {
+    usage: 'escrow <owner> <amount> <expiry-block>',
+    description: 'Escrows private balance of the sender, settleable by the owner and refundable after expiry',
+    async run(context, args) {
+      const [owner, amount, expiry] = getArgs(args, ['owner', 'amount', 'expiry-block']);
+      const { parse, format } = await getAmountCodec(context);
+      const escrowClient = new EscrowClient(await getToken(context), context.pxe);
+      const escrow = await escrowClient.escrow(
+        context.from.address,
+        parseAddress(owner),
+        parse(amount),
+        parseInteger(expiry, 'expiry block'),
+      );
+      return {
+        randomness: escrow.randomness.toString(),
+        owner: escrow.owner.toString(),
+        amount: format(escrow.amount),
+        expiry: `${escrow.expiry}`,
+      };
+    },
+  },
+
+  settle: {
+    usage: 'settle <recipient> <randomness>',
+    description: 'Pays an escrow owned by the sender to a recipient',
+    async run(context, args) {
+      const [recipient, randomness] = getArgs(args, ['recipient', 'randomness']);
+      const escrowClient = new EscrowClient(await getToken(context), context.pxe);
+      const receipt = await escrowClient.settle(
+        context.from.address,
+        parseAddress(recipient),
+        Fr.fromString(randomness),
+      );
+      return { txHash: receipt.txHash.toString(), blockNumber: receipt.blockNumber };
+    },
+  },
+
+  balance: {
+    usage: 'balance [address]',
+    description: 'Public and private balances, of the sender unless an address is given',
+    async run(context, args) {
+      const [address] = getArgs(args, [], ['address']);
+      const { format } = await getAmountCodec(context);
+      const owner = address ? parseAddress(address) : context.from.address;
+      const [publicBalance, privateBalance] = await Promise.all([
+        view(context, 'balance_of_public', [owner]),
+        view(context, 'balance_of_private', [owner]),
+      ]);
+      return { address: owner.toString(), public: format(publicBalance), private: format(privateBalance) };
+    },
+  },
+
+  supply: {
+    usage: 'supply',
+    description: 'Total and max supply of the token',
+    async run(context, args) {
+      getArgs(args, []);
+      const { format } = await getAmountCodec(context);
+      const [totalSupply, maxSupply] = await Promise.all([view(context, 'total_supply'), view(context, 'max_supply')]);
+      return { totalSupply: format(totalSupply), maxSupply: format(maxSupply) };
+    },
+  },
+};
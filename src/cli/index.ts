@@ -0,0 +1,89 @@
+import { COMMANDS, CliContext, UsageError } from './commands.js';
+import { AccountWallet, AztecAddress, PXE, createPXEClient, getSandboxAccountsWallets } from '@aztec/aztec.js';
+import { parseArgs } from 'node:util';
+
+export { COMMANDS, UsageError } from './commands.js';
+export type { CliContext, Command } from './commands.js';
+
+const OPTIONS = {
+  'pxe-url': { type: 'string' },
+  from: { type: 'string' },
+  token: { type: 'string' },
+  public: { type: 'boolean', default: false },
+  json: { type: 'boolean', default: false },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+export function getUsage() {
+  const commands = Object.values(COMMANDS).map(({ usage, description }) => `  ${usage}\n      ${description}`);
+  return [
+    'Usage: token-cli <command> [args] [options]',
+    '',
+    'Commands:',
+    ...commands,
+    '',
+    'Options:',
+    '  --pxe-url <url>     PXE to connect to (default: PXE_URL or http://localhost:8080)',
+    '  --from <address>    sandbox account sending txs (default: the first one)',
+    '  --token <address>   token to interact with (default: TOKEN_ADDRESS)',
+    '  --public            use the public balance, for transfer and burn',
+    '  --json              print the result as JSON',
+    '',
+    'Amounts are entered in token units, e.g. 12.5 or "12.5 TKN".',
+  ].join('\n');
+}
+
+// The sandbox account at `from`, or the first one.
+async function getSender(pxe: PXE, from?: string) {
+  const wallets: AccountWallet[] = await getSandboxAccountsWallets(pxe);
+  if (!from) {
+    return wallets[0].getCompleteAddress();
+  }
+  const wallet = wallets.find(w => w.getAddress().equals(AztecAddress.fromString(from)));
+  if (!wallet) {
+    throw new UsageError(`${from} is not a sandbox account`);
+  }
+  return wallet.getCompleteAddress();
+}
+
+function formatResult(result: Record<string, any>, json: boolean) {
+  if (json) {
+    return JSON.stringify(result, null, 2);
+  }
+  return Object.entries(result)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? value.formatted : value}`)
+    .join('\n');
+}
+
+/**
+ * Runs a command line (without the node and script paths) and returns what the CLI prints.
+ * Amounts are printed formatted with the token decimals, along with their raw value in JSON.
+ */
+export async function runTokenCli(argv: string[], env: NodeJS.ProcessEnv = process.env): Promise<string> {
+  const { values, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  const [commandName, ...args] = positionals;
+  if (values.help || !commandName) {
+    return getUsage();
+  }
+  const command = COMMANDS[commandName];
+  if (!command) {
+    throw new UsageError(`Unknown command "${commandName}"`);
+  }
+
+  const pxe = createPXEClient(values['pxe-url'] ?? env.PXE_URL ?? 'http://localhost:8080');
+  const token = values.token ?? env.TOKEN_ADDRESS;
+  const context: CliContext = {
+    pxe,
+    from: await getSender(pxe, values.from),
+    tokenAddress: token ? AztecAddress.fromString(token) : undefined,
+    isPublic: !!values.public,
+  };
+  try {
+    return formatResult(await command.run(context, args), !!values.json);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      err.message = `${err.message}\nUsage: token-cli ${command.usage}`;
+    }
+    throw err;
+  }
+}
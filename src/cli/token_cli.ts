@@ -0,0 +1,14 @@
+#!/usr/bin/env node
+import { describeError } from '../scripts/errors.js';
+import { runTokenCli } from './index.js';
+
+runTokenCli(process.argv.slice(2))
+  .then(output => {
+    // eslint-disable-next-line no-console
+    console.log(output);
+  })
+  .catch(err => {
+    // eslint-disable-next-line no-console
+    console.error(describeError(err));
+    process.exit(1);
+  });
@@ -11,3 +11,10 @@ export const pxe: PXE = createPXEClient(PXE_URL);
 
 export const CONTRACT_ADDRESS_PARAM_NAMES = ['owner', 'address', 'recipient'];
 export const FILTERED_FUNCTION_NAMES = ['compute_note_hash_and_nullifier'];
+// forms of these functions show how much the connected wallet can still mint
+export const MINT_FUNCTION_NAMES = ['mint_public', 'mint_private'];
+
+// entered as human readable amounts ("12.5 TKN") and converted using the token decimals
+export const AMOUNT_PARAM_NAMES = ['amount', 'quota', 'max_supply'];
+// entered as text and packed into a field
+export const SHORT_STRING_PARAM_NAMES = ['name', 'symbol'];
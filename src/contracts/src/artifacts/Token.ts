@@ -58,14 +58,14 @@ export class TokenContract extends ContractBase {
   /**
    * Creates a tx to deploy a new instance of this contract.
    */
-  public static deploy(wallet: Wallet, admin: AztecAddressLike) {
+  public static deploy(wallet: Wallet, admin: AztecAddressLike, max_supply: FieldLike, name: FieldLike, symbol: FieldLike, decimals: (bigint | number)) {
     return new DeployMethod<TokenContract>(Point.ZERO, wallet, TokenContractArtifact, TokenContract.at, Array.from(arguments).slice(1));
   }
 
   /**
    * Creates a tx to deploy a new instance of this contract using the specified public key to derive the address.
    */
-  public static deployWithPublicKey(publicKey: PublicKey, wallet: Wallet, admin: AztecAddressLike) {
+  public static deployWithPublicKey(publicKey: PublicKey, wallet: Wallet, admin: AztecAddressLike, max_supply: FieldLike, name: FieldLike, symbol: FieldLike, decimals: (bigint | number)) {
     return new DeployMethod<TokenContract>(publicKey, wallet, TokenContractArtifact, TokenContract.at, Array.from(arguments).slice(2));
   }
   
@@ -85,8 +85,8 @@ export class TokenContract extends ContractBase {
     /** compute_note_hash_and_nullifier(contract_address: struct, nonce: field, storage_slot: field, serialized_note: array) */
     compute_note_hash_and_nullifier: ((contract_address: AztecAddressLike, nonce: FieldLike, storage_slot: FieldLike, serialized_note: FieldLike[]) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
-    /** set_admin(new_admin: struct) */
-    set_admin: ((new_admin: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+    /** propose_admin(new_admin: struct) */
+    propose_admin: ((new_admin: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
     /** settle_escrow(owner: struct, recipient: struct, randomness: field, nonce: field) */
     settle_escrow: ((owner: AztecAddressLike, recipient: AztecAddressLike, randomness: FieldLike, nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
@@ -94,8 +94,14 @@ export class TokenContract extends ContractBase {
     /** admin() */
     admin: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
-    /** escrow(from: struct, owner: struct, amount: field, nonce: field) */
-    escrow: ((from: AztecAddressLike, owner: AztecAddressLike, amount: FieldLike, nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+    /** escrow(from: struct, owner: struct, amount: field, expiry: field, nonce: field) */
+    escrow: ((from: AztecAddressLike, owner: AztecAddressLike, amount: FieldLike, expiry: FieldLike, nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** settle_escrow_split(owner: struct, recipients: array, amounts: array, randomness: field, nonce: field) */
+    settle_escrow_split: ((owner: AztecAddressLike, recipients: AztecAddressLike[], amounts: FieldLike[], randomness: FieldLike, nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** refund_escrow(depositor: struct, randomness: field, nonce: field) */
+    refund_escrow: ((depositor: AztecAddressLike, randomness: FieldLike, nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
     /** is_minter(minter: struct) */
     is_minter: ((minter: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
@@ -112,14 +118,17 @@ export class TokenContract extends ContractBase {
     /** redeem_shield(to: struct, amount: field, secret: field) */
     redeem_shield: ((to: AztecAddressLike, amount: FieldLike, secret: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
-    /** get_escrows(offset: integer) */
-    get_escrows: ((offset: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+    /** get_escrows(owner: struct, offset: integer) */
+    get_escrows: ((owner: AztecAddressLike, offset: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** get_private_notes(owner: struct, offset: integer) */
+    get_private_notes: ((owner: AztecAddressLike, offset: (bigint | number)) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
     /** burn(from: struct, amount: field, nonce: field) */
     burn: ((from: AztecAddressLike, amount: FieldLike, nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
-    /** broadcast_escrow_note_for(accounts: array, randomness: field) */
-    broadcast_escrow_note_for: ((accounts: AztecAddressLike[], randomness: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+    /** share_escrow(participants: array, randomness: field) */
+    share_escrow: ((participants: AztecAddressLike[], randomness: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
     /** mint_private(amount: field, secret_hash: field) */
     mint_private: ((amount: FieldLike, secret_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
@@ -145,7 +154,76 @@ export class TokenContract extends ContractBase {
     /** transfer_public(from: struct, to: struct, amount: field, nonce: field) */
     transfer_public: ((from: AztecAddressLike, to: AztecAddressLike, amount: FieldLike, nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
 
+    /** approve_public(spender: struct, amount: field) */
+    approve_public: ((spender: AztecAddressLike, amount: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** transfer_from_public(from: struct, to: struct, amount: field) */
+    transfer_from_public: ((from: AztecAddressLike, to: AztecAddressLike, amount: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** allowance_public(owner: struct, spender: struct) */
+    allowance_public: ((owner: AztecAddressLike, spender: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** set_paused(paused: boolean) */
+    set_paused: ((paused: boolean) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** is_paused() */
+    is_paused: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** accept_admin() */
+    accept_admin: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** pending_admin() */
+    pending_admin: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** set_mint_quota(minter: struct, quota: field) */
+    set_mint_quota: ((minter: AztecAddressLike, quota: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** remove_mint_quota(minter: struct) */
+    remove_mint_quota: ((minter: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** max_supply() */
+    max_supply: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** remaining_mint_quota(minter: struct) */
+    remaining_mint_quota: ((minter: AztecAddressLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** name() */
+    name: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** symbol() */
+    symbol: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** decimals() */
+    decimals: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** reclaim_shield(amount: field, secret_hash: field) */
+    reclaim_shield: ((amount: FieldLike, secret_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** cancel_shield(amount: field, secret: field) */
+    cancel_shield: ((amount: FieldLike, secret: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** shield_reclaimable_at(amount: field, secret_hash: field) */
+    shield_reclaimable_at: ((amount: FieldLike, secret_hash: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** batch_transfer(from: struct, recipients: array, amounts: array, nonce: field) */
+    batch_transfer: ((from: AztecAddressLike, recipients: AztecAddressLike[], amounts: FieldLike[], nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** batch_transfer_public(from: struct, recipients: array, amounts: array, nonce: field) */
+    batch_transfer_public: ((from: AztecAddressLike, recipients: AztecAddressLike[], amounts: FieldLike[], nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** merge_notes(owner: struct, nonce: field) */
+    merge_notes: ((owner: AztecAddressLike, nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** transfer_with_memo(from: struct, to: struct, amount: field, memo: field, nonce: field) */
+    transfer_with_memo: ((from: AztecAddressLike, to: AztecAddressLike, amount: FieldLike, memo: FieldLike, nonce: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
     /** total_supply() */
     total_supply: (() => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** increase_allowance_public(spender: struct, amount: field) */
+    increase_allowance_public: ((spender: AztecAddressLike, amount: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
+
+    /** decrease_allowance_public(spender: struct, amount: field) */
+    decrease_allowance_public: ((spender: AztecAddressLike, amount: FieldLike) => ContractFunctionInteraction) & Pick<ContractMethod, 'selector'>;
   };
 }
@@ -0,0 +1,117 @@
+import { getTokenEvents } from '../scripts/index.js';
+import { IndexerState, applyTokenEvent, createIndexerState } from './state.js';
+import { InMemoryIndexerStore, IndexerStore } from './store.js';
+import { AztecAddress, PXE } from '@aztec/aztec.js';
+import { DebugLogger, createDebugLogger } from '@aztec/foundation/log';
+
+export interface TokenIndexerOptions {
+  // the block the token was deployed in, nothing before it is read
+  startBlock?: number;
+  store?: IndexerStore;
+  logger?: DebugLogger;
+}
+
+/**
+ * Follows a Token deployment block by block, rebuilding its public state from the events it logs.
+ * The state is saved after every block, and loaded back from the store on `init`.
+ */
+export class TokenIndexer {
+  private state: IndexerState;
+  private store: IndexerStore;
+  private logger: DebugLogger;
+  private timer?: NodeJS.Timeout;
+
+  constructor(private pxe: PXE, tokenAddress: AztecAddress, options: TokenIndexerOptions = {}) {
+    this.state = createIndexerState(tokenAddress, options.startBlock ?? 1);
+    this.store = options.store ?? new InMemoryIndexerStore();
+    this.logger = options.logger ?? createDebugLogger('token:indexer');
+  }
+
+  // Resumes from the checkpoint of the store, which must have been indexing the same token.
+  public async init() {
+    const saved = await this.store.load();
+    if (saved) {
+      if (!saved.tokenAddress.equals(this.state.tokenAddress)) {
+        throw new Error(`Store is indexing token ${saved.tokenAddress}, not ${this.state.tokenAddress}`);
+      }
+      this.state = saved;
+      this.logger(`Resuming from block ${saved.checkpoint}`);
+    }
+    return this;
+  }
+
+  // Indexes every block mined since the checkpoint, returns the number of blocks processed.
+  public async sync() {
+    const head = await this.pxe.getBlockNumber();
+    let processed = 0;
+    for (let blockNumber = this.state.checkpoint + 1; blockNumber <= head; blockNumber++) {
+      const events = await getTokenEvents(this.pxe, this.state.tokenAddress, {
+        fromBlock: blockNumber,
+        toBlock: blockNumber + 1,
+      });
+      for (const event of events) {
+        applyTokenEvent(this.state, event);
+      }
+      this.state.checkpoint = blockNumber;
+      await this.store.save(this.state);
+      processed++;
+    }
+    if (processed > 0) {
+      this.logger(`Indexed up to block ${head}`);
+    }
+    return processed;
+  }
+
+  // Polls for new blocks until `stop` is called.
+  public start(pollingIntervalMs = 1000) {
+    const poll = async () => {
+      try {
+        await this.sync();
+      } catch (err) {
+        this.logger.error('Failed to index', err);
+      }
+      if (this.timer) {
+        this.timer = setTimeout(poll, pollingIntervalMs);
+      }
+    };
+    this.timer = setTimeout(poll, 0);
+  }
+
+  public stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  public get checkpoint() {
+    return this.state.checkpoint;
+  }
+
+  public get tokenAddress() {
+    return this.state.tokenAddress;
+  }
+
+  public getPublicBalance(address: AztecAddress) {
+    return this.state.publicBalances.get(address.toString()) ?? 0n;
+  }
+
+  public getPublicBalances() {
+    return new Map(this.state.publicBalances);
+  }
+
+  public getTotalSupply() {
+    return this.state.totalSupply;
+  }
+
+  public getMinters() {
+    return [...this.state.minters];
+  }
+
+  // Every admin of the token, the current one last.
+  public getAdminHistory() {
+    return [...this.state.admins];
+  }
+
+  public isPaused() {
+    return this.state.paused;
+  }
+}
@@ -0,0 +1,44 @@
+import { pxe } from '../config.js';
+import { TokenIndexer } from './indexer.js';
+import { createIndexerServer } from './server.js';
+import { JsonFileIndexerStore } from './store.js';
+import { AztecAddress, waitForSandbox } from '@aztec/aztec.js';
+import { createDebugLogger } from '@aztec/foundation/log';
+
+// Indexes the token at `TOKEN_ADDRESS` from `START_BLOCK` into `INDEXER_DB`, and serves the state on `PORT`.
+const {
+  TOKEN_ADDRESS,
+  START_BLOCK = '1',
+  INDEXER_DB = './token-indexer.json',
+  PORT = '3001',
+  POLLING_INTERVAL_MS = '1000',
+} = process.env;
+
+async function main() {
+  if (!TOKEN_ADDRESS) {
+    throw new Error('TOKEN_ADDRESS must be set');
+  }
+  const logger = createDebugLogger('token:indexer');
+  await waitForSandbox(pxe);
+
+  const indexer = await new TokenIndexer(pxe, AztecAddress.fromString(TOKEN_ADDRESS), {
+    startBlock: Number(START_BLOCK),
+    store: new JsonFileIndexerStore(INDEXER_DB),
+    logger,
+  }).init();
+  indexer.start(Number(POLLING_INTERVAL_MS));
+
+  const server = createIndexerServer(indexer).listen(Number(PORT), () => logger(`Serving on port ${PORT}`));
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(err => {
+  // eslint-disable-next-line no-console
+  console.error(err);
+  process.exit(1);
+});
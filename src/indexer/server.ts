@@ -0,0 +1,60 @@
+import { TokenIndexer } from './indexer.js';
+import { AztecAddress } from '@aztec/aztec.js';
+import { IncomingMessage, ServerResponse, createServer } from 'http';
+
+// bigints and addresses are returned as strings
+function toJSON(value: any) {
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' || v instanceof AztecAddress ? v.toString() : v));
+}
+
+function send(res: ServerResponse, status: number, body: any) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(toJSON(body));
+}
+
+/**
+ * Read-only HTTP API over the indexed state:
+ * - `GET /status`: token address, checkpoint block, total supply and whether it's paused
+ * - `GET /balances`: every non-zero public balance
+ * - `GET /balances/:address`: the public balance of an address
+ * - `GET /minters`: the current minters
+ * - `GET /admins`: every admin change, the current admin last
+ */
+export function createIndexerServer(indexer: TokenIndexer) {
+  const routes: [RegExp, (...params: string[]) => any][] = [
+    [
+      /^\/status$/,
+      () => ({
+        tokenAddress: indexer.tokenAddress,
+        checkpoint: indexer.checkpoint,
+        totalSupply: indexer.getTotalSupply(),
+        paused: indexer.isPaused(),
+      }),
+    ],
+    [/^\/balances$/, () => Object.fromEntries(indexer.getPublicBalances())],
+    [
+      /^\/balances\/(0x[0-9a-fA-F]+)$/,
+      address => ({ address, balance: indexer.getPublicBalance(AztecAddress.fromString(address)) }),
+    ],
+    [/^\/minters$/, () => indexer.getMinters()],
+    [/^\/admins$/, () => indexer.getAdminHistory()],
+  ];
+
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET') {
+      return send(res, 405, { error: 'Method not allowed' });
+    }
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    for (const [pattern, handler] of routes) {
+      const match = pathname.match(pattern);
+      if (match) {
+        try {
+          return send(res, 200, handler(...match.slice(1)));
+        } catch (err: any) {
+          return send(res, 400, { error: err.message });
+        }
+      }
+    }
+    send(res, 404, { error: `Not found: ${pathname}` });
+  });
+}
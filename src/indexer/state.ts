@@ -0,0 +1,81 @@
+import { TokenLogEvent } from '../scripts/index.js';
+import { AztecAddress } from '@aztec/aztec.js';
+
+export interface AdminChange {
+  blockNumber: number;
+  previousAdmin: AztecAddress;
+  admin: AztecAddress;
+}
+
+// What the indexer knows about a token, up to and including the `checkpoint` block.
+export interface IndexerState {
+  tokenAddress: AztecAddress;
+  checkpoint: number;
+  // keyed by address, accounts with a zero balance are dropped
+  publicBalances: Map<string, bigint>;
+  totalSupply: bigint;
+  minters: AztecAddress[];
+  admins: AdminChange[];
+  paused: boolean;
+}
+
+export function createIndexerState(tokenAddress: AztecAddress, startBlock: number): IndexerState {
+  return {
+    tokenAddress,
+    checkpoint: startBlock - 1,
+    publicBalances: new Map(),
+    totalSupply: 0n,
+    minters: [],
+    admins: [],
+    paused: false,
+  };
+}
+
+function addToBalance(state: IndexerState, address: AztecAddress, amount: bigint) {
+  // the zero address stands for private balances, which are not indexed
+  if (address.isZero()) {
+    return;
+  }
+  const balance = (state.publicBalances.get(address.toString()) ?? 0n) + amount;
+  if (balance === 0n) {
+    state.publicBalances.delete(address.toString());
+  } else {
+    state.publicBalances.set(address.toString(), balance);
+  }
+}
+
+// Applies an event to the state in place, events must be applied in the order they were logged.
+export function applyTokenEvent(state: IndexerState, event: TokenLogEvent) {
+  switch (event.name) {
+    case 'Transfer':
+      addToBalance(state, event.from, -event.amount);
+      addToBalance(state, event.to, event.amount);
+      break;
+    case 'Mint':
+      addToBalance(state, event.to, event.amount);
+      state.totalSupply += event.amount;
+      break;
+    case 'Burn':
+      addToBalance(state, event.from, -event.amount);
+      state.totalSupply -= event.amount;
+      break;
+    case 'Shield':
+      addToBalance(state, event.from, -event.amount);
+      break;
+    case 'Unshield':
+      addToBalance(state, event.to, event.amount);
+      break;
+    case 'MinterChanged':
+      state.minters = state.minters.filter(minter => !minter.equals(event.minter));
+      if (event.approved) {
+        state.minters.push(event.minter);
+      }
+      break;
+    case 'AdminChanged':
+      state.admins.push({ blockNumber: event.id.blockNumber, previousAdmin: event.previousAdmin, admin: event.admin });
+      break;
+    case 'Paused':
+      state.paused = event.paused;
+      break;
+  }
+}
@@ -0,0 +1,96 @@
+import { AdminChange, IndexerState } from './state.js';
+import { AztecAddress } from '@aztec/aztec.js';
+import { readFile, rename, writeFile } from 'fs/promises';
+
+// Where the indexer persists its state after every block, so that it resumes from the checkpoint when restarted.
+export interface IndexerStore {
+  load(): Promise<IndexerState | undefined>;
+  save(state: IndexerState): Promise<void>;
+}
+
+interface SerializedAdminChange {
+  blockNumber: number;
+  previousAdmin: string;
+  admin: string;
+}
+
+interface SerializedIndexerState {
+  tokenAddress: string;
+  checkpoint: number;
+  publicBalances: Record<string, string>;
+  totalSupply: string;
+  minters: string[];
+  admins: SerializedAdminChange[];
+  paused: boolean;
+}
+
+export function serializeIndexerState(state: IndexerState): SerializedIndexerState {
+  return {
+    tokenAddress: state.tokenAddress.toString(),
+    checkpoint: state.checkpoint,
+    publicBalances: Object.fromEntries([...state.publicBalances].map(([address, balance]) => [address, `${balance}`])),
+    totalSupply: `${state.totalSupply}`,
+    minters: state.minters.map(minter => minter.toString()),
+    admins: state.admins.map(({ blockNumber, previousAdmin, admin }) => ({
+      blockNumber,
+      previousAdmin: previousAdmin.toString(),
+      admin: admin.toString(),
+    })),
+    paused: state.paused,
+  };
+}
+
+export function deserializeIndexerState(serialized: SerializedIndexerState): IndexerState {
+  return {
+    tokenAddress: AztecAddress.fromString(serialized.tokenAddress),
+    checkpoint: serialized.checkpoint,
+    publicBalances: new Map(
+      Object.entries(serialized.publicBalances).map(([address, balance]) => [address, BigInt(balance)]),
+    ),
+    totalSupply: BigInt(serialized.totalSupply),
+    minters: serialized.minters.map(minter => AztecAddress.fromString(minter)),
+    admins: serialized.admins.map(
+      ({ blockNumber, previousAdmin, admin }): AdminChange => ({
+        blockNumber,
+        previousAdmin: AztecAddress.fromString(previousAdmin),
+        admin: AztecAddress.fromString(admin),
+      }),
+    ),
+    paused: serialized.paused,
+  };
+}
+
+export class InMemoryIndexerStore implements IndexerStore {
+  private state?: SerializedIndexerState;
+
+  public load() {
+    return Promise.resolve(this.state && deserializeIndexerState(this.state));
+  }
+
+  public save(state: IndexerState) {
+    this.state = serializeIndexerState(state);
+    return Promise.resolve();
+  }
+}
+
+// Keeps the state in a JSON file, replaced atomically so that a crash never leaves a partial state behind.
+export class JsonFileIndexerStore implements IndexerStore {
+  constructor(private path: string) {}
+
+  public async load() {
+    try {
+      return deserializeIndexerState(JSON.parse(await readFile(this.path, 'utf8')));
+    } catch (err: any) {
+      if (err.code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  public async save(state: IndexerState) {
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(serializeIndexerState(state), null, 2));
+    await rename(tmpPath, this.path);
+  }
+}
@@ -0,0 +1,37 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { sendAndWait } from './util.js';
+import { AztecAddress } from '@aztec/aztec.js';
+
+// Public allowances are an alternative to authwits for `transfer_public`: the owner approves once,
+// and the spender can then call `transfer_from_public` until the allowance is used up.
+// While the token is paused allowances can be revoked or decreased, but not raised.
+// `token` is bound to the wallet sending the tx (the owner when approving, the spender when transferring).
+
+export async function approvePublic(token: TokenContract, spender: AztecAddress, amount: bigint) {
+  return await sendAndWait(token.methods.approve_public(spender, amount), 'approve_public');
+}
+
+export function revokePublic(token: TokenContract, spender: AztecAddress) {
+  return approvePublic(token, spender, 0n);
+}
+
+// Changes the allowance relative to its current value, unlike `approvePublic` that overwrites it.
+export async function increaseAllowancePublic(token: TokenContract, spender: AztecAddress, amount: bigint) {
+  return await sendAndWait(token.methods.increase_allowance_public(spender, amount), 'increase_allowance_public');
+}
+
+export async function decreaseAllowancePublic(token: TokenContract, spender: AztecAddress, amount: bigint) {
+  return await sendAndWait(token.methods.decrease_allowance_public(spender, amount), 'decrease_allowance_public');
+}
+
+export async function allowancePublic(
+  token: TokenContract,
+  owner: AztecAddress,
+  spender: AztecAddress,
+): Promise<bigint> {
+  return await token.methods.allowance_public(owner, spender).view();
+}
+
+export async function transferFromPublic(token: TokenContract, from: AztecAddress, to: AztecAddress, amount: bigint) {
+  return await sendAndWait(token.methods.transfer_from_public(from, to, amount), 'transfer_from_public');
+}
@@ -0,0 +1,32 @@
+// Conversions between raw token amounts (integers in the smallest unit) and human readable ones such as "12.5 TKN".
+
+const AMOUNT_REGEX = /^(\d+)(?:\.(\d+))?(?:\s+(\S+))?$/;
+
+export function formatAmount(amount: bigint, decimals: number, symbol?: string): string {
+  // history entries and balance changes are negative when tokens leave the balance
+  const sign = amount < 0n ? '-' : '';
+  const absolute = amount < 0n ? -amount : amount;
+  const unit = 10n ** BigInt(decimals);
+  const fraction = (absolute % unit).toString().padStart(decimals, '0').replace(/0+$/, '');
+  const value = fraction ? `${sign}${absolute / unit}.${fraction}` : `${sign}${absolute / unit}`;
+  return symbol ? `${value} ${symbol}` : value;
+}
+
+/**
+ * Parses "12.5", "12.5 TKN" or "12" into a raw amount.
+ * Throws when the symbol doesn't match, or when the amount has more decimals than the token.
+ */
+export function parseAmount(input: string, decimals: number, symbol?: string): bigint {
+  const match = input.trim().match(AMOUNT_REGEX);
+  if (!match) {
+    throw new Error(`Invalid amount "${input}"`);
+  }
+  const [, whole, fraction = '', inputSymbol] = match;
+  if (inputSymbol !== undefined && inputSymbol !== symbol) {
+    throw new Error(`Invalid amount "${input}", expected an amount in ${symbol ?? 'raw units'}`);
+  }
+  if (fraction.length > decimals) {
+    throw new Error(`Invalid amount "${input}", the token has ${decimals} decimals`);
+  }
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+}
@@ -0,0 +1,182 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { toBatchArgs } from './batch_transfer.js';
+import { Payment } from './constants.js';
+import { sendAndWait } from './util.js';
+import {
+  AccountWallet,
+  AztecAddress,
+  ContractFunctionInteraction,
+  Fr,
+  Wallet,
+  computeAuthWitMessageHash,
+} from '@aztec/aztec.js';
+
+// A delegated action that `caller` is authorized to perform on behalf of another account.
+export interface Authorization {
+  // the action bound to the caller's wallet, ready to be sent or simulated
+  action: ContractFunctionInteraction;
+  nonce: Fr;
+  messageHash: Fr;
+  // public authorizations are stored in the authorizing account and can be cancelled
+  isPublic: boolean;
+}
+
+/**
+ * Builds the authwits for every Token action that can be performed on behalf of another account.
+ * Private actions get a witness registered in the caller's PXE, public ones an approval stored in the authorizing account.
+ * Each builder picks a fresh nonce unless one is given.
+ */
+export class TokenAuthWits {
+  constructor(private token: TokenContract) {}
+
+  public authorizeTransfer(from: AccountWallet, caller: Wallet, to: AztecAddress, amount: bigint, nonce = Fr.random()) {
+    const action = this.as(caller).transfer(from.getAddress(), to, amount, nonce);
+    return this.authorizePrivate(from, caller, action, nonce);
+  }
+
+  // `payments` must fit in a single `batch_transfer`.
+  public authorizeBatchTransfer(from: AccountWallet, caller: Wallet, payments: Payment[], nonce = Fr.random()) {
+    const action = this.as(caller).batch_transfer(from.getAddress(), ...toBatchArgs(payments), nonce);
+    return this.authorizePrivate(from, caller, action, nonce);
+  }
+
+  public authorizeTransferWithMemo(
+    from: AccountWallet,
+    caller: Wallet,
+    to: AztecAddress,
+    amount: bigint,
+    memo: Fr | bigint,
+    nonce = Fr.random(),
+  ) {
+    const action = this.as(caller).transfer_with_memo(from.getAddress(), to, amount, memo, nonce);
+    return this.authorizePrivate(from, caller, action, nonce);
+  }
+
+  public authorizeUnshield(from: AccountWallet, caller: Wallet, to: AztecAddress, amount: bigint, nonce = Fr.random()) {
+    const action = this.as(caller).unshield(from.getAddress(), to, amount, nonce);
+    return this.authorizePrivate(from, caller, action, nonce);
+  }
+
+  public authorizeShieldPrivate(
+    from: AccountWallet,
+    caller: Wallet,
+    to: AztecAddress,
+    amount: bigint,
+    nonce = Fr.random(),
+  ) {
+    const action = this.as(caller).shield_private(from.getAddress(), to, amount, nonce);
+    return this.authorizePrivate(from, caller, action, nonce);
+  }
+
+  public authorizeBurn(from: AccountWallet, caller: Wallet, amount: bigint, nonce = Fr.random()) {
+    const action = this.as(caller).burn(from.getAddress(), amount, nonce);
+    return this.authorizePrivate(from, caller, action, nonce);
+  }
+
+  public authorizeMergeNotes(owner: AccountWallet, caller: Wallet, nonce = Fr.random()) {
+    const action = this.as(caller).merge_notes(owner.getAddress(), nonce);
+    return this.authorizePrivate(owner, caller, action, nonce);
+  }
+
+  public authorizeEscrow(
+    from: AccountWallet,
+    caller: Wallet,
+    owner: AztecAddress,
+    amount: bigint,
+    expiry: bigint,
+    nonce = Fr.random(),
+  ) {
+    const action = this.as(caller).escrow(from.getAddress(), owner, amount, expiry, nonce);
+    return this.authorizePrivate(from, caller, action, nonce);
+  }
+
+  public authorizeSettleEscrow(
+    owner: AccountWallet,
+    caller: Wallet,
+    recipient: AztecAddress,
+    randomness: Fr,
+    nonce = Fr.random(),
+  ) {
+    const action = this.as(caller).settle_escrow(owner.getAddress(), recipient, randomness, nonce);
+    return this.authorizePrivate(owner, caller, action, nonce);
+  }
+
+  public authorizeSettleEscrowSplit(
+    owner: AccountWallet,
+    caller: Wallet,
+    recipients: AztecAddress[],
+    amounts: bigint[],
+    randomness: Fr,
+    nonce = Fr.random(),
+  ) {
+    const action = this.as(caller).settle_escrow_split(owner.getAddress(), recipients, amounts, randomness, nonce);
+    return this.authorizePrivate(owner, caller, action, nonce);
+  }
+
+  public authorizeRefundEscrow(depositor: AccountWallet, caller: Wallet, randomness: Fr, nonce = Fr.random()) {
+    const action = this.as(caller).refund_escrow(depositor.getAddress(), randomness, nonce);
+    return this.authorizePrivate(depositor, caller, action, nonce);
+  }
+
+  public authorizeTransferPublic(
+    from: AccountWallet,
+    caller: Wallet,
+    to: AztecAddress,
+    amount: bigint,
+    nonce = Fr.random(),
+  ) {
+    const action = this.as(caller).transfer_public(from.getAddress(), to, amount, nonce);
+    return this.authorizePublic(from, caller, action, nonce);
+  }
+
+  // `payments` must fit in a single `batch_transfer_public`.
+  public authorizeBatchTransferPublic(from: AccountWallet, caller: Wallet, payments: Payment[], nonce = Fr.random()) {
+    const action = this.as(caller).batch_transfer_public(from.getAddress(), ...toBatchArgs(payments), nonce);
+    return this.authorizePublic(from, caller, action, nonce);
+  }
+
+  public authorizeBurnPublic(from: AccountWallet, caller: Wallet, amount: bigint, nonce = Fr.random()) {
+    const action = this.as(caller).burn_public(from.getAddress(), amount, nonce);
+    return this.authorizePublic(from, caller, action, nonce);
+  }
+
+  public authorizeShield(from: AccountWallet, caller: Wallet, amount: bigint, secretHash: Fr, nonce = Fr.random()) {
+    const action = this.as(caller).shield(from.getAddress(), amount, secretHash, nonce);
+    return this.authorizePublic(from, caller, action, nonce);
+  }
+
+  // Revokes a public authorization that was not consumed yet.
+  public async cancel(approver: AccountWallet, authorization: Authorization) {
+    if (!authorization.isPublic) {
+      throw new Error('Only public authorizations can be cancelled');
+    }
+    return await sendAndWait(approver.setPublicAuth(authorization.messageHash, false), 'set_is_valid_storage');
+  }
+
+  private as(caller: Wallet) {
+    return this.token.withWallet(caller).methods;
+  }
+
+  private async authorizePrivate(
+    approver: AccountWallet,
+    caller: Wallet,
+    action: ContractFunctionInteraction,
+    nonce: Fr,
+  ): Promise<Authorization> {
+    const messageHash = Fr.fromBuffer(computeAuthWitMessageHash(caller.getCompleteAddress().address, action.request()));
+    const witness = await approver.createAuthWitness(messageHash);
+    await caller.addAuthWitness(witness);
+    return { action, nonce, messageHash, isPublic: false };
+  }
+
+  private async authorizePublic(
+    approver: AccountWallet,
+    caller: Wallet,
+    action: ContractFunctionInteraction,
+    nonce: Fr,
+  ): Promise<Authorization> {
+    const messageHash = Fr.fromBuffer(computeAuthWitMessageHash(caller.getCompleteAddress().address, action.request()));
+    await sendAndWait(approver.setPublicAuth(messageHash, true), 'set_is_valid_storage');
+    return { action, nonce, messageHash, isPublic: true };
+  }
+}
@@ -0,0 +1,70 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { BATCH_TRANSFER_SIZE, Payment } from './constants.js';
+import { padArray, sendAndWait } from './util.js';
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+
+const ADDRESS_ZERO = AztecAddress.fromBigInt(0n);
+
+export function chunkPayments(payments: Payment[], size = BATCH_TRANSFER_SIZE): Payment[][] {
+  const chunks = [];
+  for (let i = 0; i < payments.length; i += size) {
+    chunks.push(payments.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// The recipients and amounts arguments for at most `BATCH_TRANSFER_SIZE` payments, padded with zeros.
+export function toBatchArgs(payments: Payment[]) {
+  const recipients = padArray(
+    payments.map(p => p.recipient),
+    BATCH_TRANSFER_SIZE,
+    ADDRESS_ZERO,
+  );
+  const amounts = padArray(
+    payments.map(p => p.amount),
+    BATCH_TRANSFER_SIZE,
+    0n,
+  );
+  return [recipients, amounts] as const;
+}
+
+/**
+ * Pays any number of recipients from the private balance of `from`, sending one `batch_transfer` tx per 4 payments.
+ * Delegated transfers need an authwit per tx, for the nonce given for that chunk in `nonces`.
+ */
+export async function batchTransfer(
+  token: TokenContract,
+  from: AztecAddress,
+  payments: Payment[],
+  nonces: (Fr | bigint)[] = [],
+) {
+  const receipts = [];
+  for (const [i, chunk] of chunkPayments(payments).entries()) {
+    const [recipients, amounts] = toBatchArgs(chunk);
+    const receipt = await sendAndWait(
+      token.methods.batch_transfer(from, recipients, amounts, nonces[i] ?? 0n),
+      'batch_transfer',
+    );
+    receipts.push(receipt);
+  }
+  return receipts;
+}
+
+// Same as `batchTransfer`, from the public balance of `from`.
+export async function batchTransferPublic(
+  token: TokenContract,
+  from: AztecAddress,
+  payments: Payment[],
+  nonces: (Fr | bigint)[] = [],
+) {
+  const receipts = [];
+  for (const [i, chunk] of chunkPayments(payments).entries()) {
+    const [recipients, amounts] = toBatchArgs(chunk);
+    const receipt = await sendAndWait(
+      token.methods.batch_transfer_public(from, recipients, amounts, nonces[i] ?? 0n),
+      'batch_transfer_public',
+    );
+    receipts.push(receipt);
+  }
+  return receipts;
+}
@@ -1,3 +1,4 @@
+import { parseTokenError } from './errors.js';
 import { getWallet } from './util.js';
 import { AztecAddress, PXE, CompleteAddress, Contract } from '@aztec/aztec.js';
 import { ContractArtifact } from '@aztec/foundation/abi';
@@ -18,5 +19,8 @@ export async function callContractFunction(
 
   return contract.methods[functionName](...typedArgs)
     .send()
-    .wait();
+    .wait()
+    .catch(err => {
+      throw parseTokenError(err, functionName) ?? err;
+    });
 }
@@ -0,0 +1,17 @@
+import { AztecAddress } from '@aztec/aztec.js';
+
+// Limits of the Token contract that the helpers and `TokenEngine` share, kept free of the contract artifact.
+
+// `batch_transfer` and `batch_transfer_public` take fixed size arrays of recipients and amounts.
+export const BATCH_TRANSFER_SIZE = 4;
+
+// Notes that `transfer` and `merge_notes` read in a single call (`MAX_READ_REQUESTS_PER_CALL` in aztec-nr).
+export const MAX_NOTES_PER_CALL = 32;
+
+// Blocks after which a shield can be reclaimed without the secret (`SHIELD_RECLAIM_DELAY` in `transparent_note.nr`).
+export const SHIELD_RECLAIM_DELAY = 100;
+
+export interface Payment {
+  recipient: AztecAddress;
+  amount: bigint;
+}
@@ -0,0 +1,107 @@
+// The ways a call to the Token contract reverts, by code: the assertion message the contract or the libraries
+// it uses revert with, and what it means for the user.
+export const TOKEN_ERRORS = {
+  NOT_ADMIN: { reason: 'caller is not admin', description: 'Only the admin can do this' },
+  NOT_PENDING_ADMIN: {
+    reason: 'caller is not pending admin',
+    description: 'Only the proposed admin can accept the role',
+  },
+  NOT_MINTER: { reason: 'caller is not minter', description: 'Only minters can mint' },
+  PAUSED: { reason: 'token is paused', description: 'The token is paused' },
+  INVALID_NONCE: { reason: 'invalid nonce', description: 'The nonce must be 0 when acting for yourself' },
+  INSUFFICIENT_BALANCE: { reason: 'Balance too low', description: 'The private balance is too low' },
+  MAX_SUPPLY_EXCEEDED: { reason: 'max supply exceeded', description: 'Minting this much would exceed the max supply' },
+  MINT_QUOTA_EXCEEDED: { reason: 'mint quota exceeded', description: 'Minting this much would exceed the mint quota' },
+  INSUFFICIENT_ALLOWANCE: { reason: 'allowance too low', description: 'The allowance is too low' },
+  SHIELD_EXISTS: {
+    reason: 'shield already exists',
+    description: 'A pending shield with the same amount and secret hash already exists',
+  },
+  SHIELD_RECLAIMED: { reason: 'shield was reclaimed', description: 'The shield was reclaimed by its shielder' },
+  NOT_SHIELDER: { reason: 'caller is not the shielder', description: 'Only the shielder can take the shield back' },
+  SHIELD_NOT_RECLAIMABLE: {
+    reason: "shield can't be reclaimed yet",
+    description: "The shield can't be reclaimed before its delay has passed",
+  },
+  SHIELD_NOT_FOUND: { reason: 'shield does not exist', description: 'No pending shield matches the amount and secret' },
+  ESCROW_NOT_FOUND: { reason: 'escrow does not exist', description: "The escrow doesn't exist or was already spent" },
+  INSUFFICIENT_ESCROW: {
+    reason: 'escrow amount too low',
+    description: 'The escrow holds less than the amounts to settle',
+  },
+  ESCROW_NOT_EXPIRED: {
+    reason: 'escrow has not expired',
+    description: "The escrow can't be refunded before its expiry",
+  },
+  NOT_ESCROW_OWNER: {
+    reason: 'msg sender is not the owner',
+    description: 'Only the owner of the escrow can settle it',
+  },
+  NOT_ESCROW_DEPOSITOR: {
+    reason: 'msg sender is not the depositor',
+    description: 'Only the depositor of the escrow can refund it',
+  },
+  // authwit
+  UNAUTHORIZED: {
+    reason: 'Message not authorized by account',
+    description: 'The account did not authorize this action',
+  },
+  // private actions fail in the PXE of the caller when it holds no witness, before the account contract is called
+  AUTHWIT_NOT_FOUND: {
+    reason: 'Unknown auth witness for message hash',
+    description: 'The account did not authorize this action',
+  },
+  // SafeU120
+  AMOUNT_TOO_LARGE: { reason: 'Value too large for SafeU120', description: 'The amount is too large' },
+  OVERFLOW: { reason: 'attempt to add with overflow', description: 'A balance or the supply would overflow' },
+  UNDERFLOW: {
+    reason: 'attempt to subtract with underflow',
+    description: 'The public balance, the supply or the quota is too low',
+  },
+} as const;
+
+export type TokenErrorCode = keyof typeof TOKEN_ERRORS;
+
+export type TokenRevertReason = (typeof TOKEN_ERRORS)[TokenErrorCode]['reason'];
+
+const TOKEN_ERROR_CODES = Object.keys(TOKEN_ERRORS) as TokenErrorCode[];
+
+export const TOKEN_REVERT_REASONS: TokenRevertReason[] = TOKEN_ERROR_CODES.map(code => TOKEN_ERRORS[code].reason);
+
+/**
+ * A revert of the Token contract, usually parsed from the error of the PXE or the node by `parseTokenError`.
+ * The message is meant for users, while `reason` is the assertion message of the contract.
+ */
+export class TokenError extends Error {
+  public readonly reason: TokenRevertReason;
+
+  constructor(public readonly code: TokenErrorCode, public readonly functionName?: string, cause?: unknown) {
+    const { description } = TOKEN_ERRORS[code];
+    super(functionName ? `${functionName} reverted: ${description}` : description, { cause });
+    this.name = 'TokenError';
+    this.reason = TOKEN_ERRORS[code].reason;
+  }
+}
+
+export function getTokenErrorCode(reason: TokenRevertReason): TokenErrorCode {
+  return TOKEN_ERROR_CODES.find(code => TOKEN_ERRORS[code].reason === reason)!;
+}
+
+// The revert of the token that `error` is or wraps in its message, which the simulator buries under its trace.
+export function parseTokenError(error: unknown, functionName?: string): TokenError | undefined {
+  if (error instanceof TokenError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : `${error}`;
+  const code = TOKEN_ERROR_CODES.find(code => message.includes(TOKEN_ERRORS[code].reason));
+  return code && new TokenError(code, functionName, error);
+}
+
+// What to show users when a call failed: what the revert means if the token reverted, the error message otherwise.
+export function describeError(error: unknown, functionName?: string): string {
+  const tokenError = parseTokenError(error, functionName);
+  if (tokenError) {
+    return tokenError.message;
+  }
+  return error instanceof Error ? error.message : `${error}`;
+}
@@ -0,0 +1,197 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { paginateNotes } from './pagination.js';
+import { padArray, sendAndWait } from './util.js';
+import { AztecAddress, ExtendedNote, Fr, Note, PXE, TxHash, Wallet, retryUntil } from '@aztec/aztec.js';
+
+// The storage slot of `escrows` in the Token contract.
+export const ESCROWS_STORAGE_SLOT = new Fr(7);
+
+// The storage slot of `escrow_shares` in the Token contract.
+export const ESCROW_SHARES_STORAGE_SLOT = new Fr(8);
+
+// Serialization order of `EscrowNote` (see `escrow_note.nr`).
+export const ESCROW_NOTE_FIELDS = ['amount', 'owner', 'randomness', 'depositor', 'expiry'] as const;
+
+// `share_escrow` takes a fixed size array of participants.
+const SHARE_BATCH_SIZE = 4;
+
+// How long to wait for a participant's PXE to pick up a shared escrow, in seconds.
+const SHARE_SYNC_TIMEOUT = 30;
+
+// `settle_escrow_split` takes fixed size arrays of recipients and amounts.
+const SETTLE_SPLIT_MAX_RECIPIENTS = 4;
+
+const ADDRESS_ZERO = AztecAddress.fromBigInt(0n);
+
+export interface Escrow {
+  amount: bigint;
+  owner: AztecAddress;
+  randomness: Fr;
+  depositor: AztecAddress;
+  // block number from which the depositor can refund the escrow
+  expiry: bigint;
+  // only known when the escrow was read from the PXE, not from the `get_escrows` view
+  txHash?: TxHash;
+}
+
+export interface EscrowPayout {
+  recipient: AztecAddress;
+  amount: bigint;
+}
+
+type EscrowNoteField = (typeof ESCROW_NOTE_FIELDS)[number];
+
+function getNoteField(note: Note, name: EscrowNoteField): Fr {
+  return note.items[ESCROW_NOTE_FIELDS.indexOf(name)];
+}
+
+export function decodeEscrowNote(extendedNote: ExtendedNote): Escrow {
+  const { note, txHash } = extendedNote;
+  return {
+    amount: getNoteField(note, 'amount').toBigInt(),
+    owner: AztecAddress.fromField(getNoteField(note, 'owner')),
+    randomness: getNoteField(note, 'randomness'),
+    depositor: AztecAddress.fromField(getNoteField(note, 'depositor')),
+    expiry: getNoteField(note, 'expiry').toBigInt(),
+    txHash,
+  };
+}
+
+// `get_escrows` returns `Option<EscrowNote>` structs decoded from the artifact return types.
+function decodeEscrowView(value: any): Escrow {
+  return {
+    amount: value.amount.value,
+    owner: AztecAddress.fromBigInt(value.owner.inner),
+    randomness: new Fr(value.randomness),
+    depositor: AztecAddress.fromBigInt(value.depositor.inner),
+    expiry: value.expiry,
+  };
+}
+
+// Every escrow visible to the token's wallet, owned by `owner` if given.
+export function listEscrows(token: TokenContract, owner: AztecAddress = ADDRESS_ZERO) {
+  return paginateNotes(offset => token.methods.get_escrows(owner, offset).view(), decodeEscrowView);
+}
+
+/**
+ * Typed wrapper around the escrow functions of the Token contract.
+ * Delegated calls (`from`/`owner` different from the wallet) still require an authwit for the given nonce.
+ */
+export class EscrowClient {
+  constructor(private token: TokenContract, private pxe: PXE) {}
+
+  public withWallet(wallet: Wallet) {
+    return new EscrowClient(this.token.withWallet(wallet), this.pxe);
+  }
+
+  public async escrow(
+    from: AztecAddress,
+    owner: AztecAddress,
+    amount: bigint,
+    expiry: bigint,
+    nonce: Fr | bigint = 0n,
+  ) {
+    const receipt = await sendAndWait(this.token.methods.escrow(from, owner, amount, expiry, nonce), 'escrow');
+
+    const [escrow] = await this.getEscrowNotes(owner, receipt.txHash);
+    if (!escrow) {
+      throw new Error(`Escrow note for ${owner.toShortString()} not found in tx ${receipt.txHash}`);
+    }
+    return escrow;
+  }
+
+  public async settle(owner: AztecAddress, recipient: AztecAddress, randomness: Fr, nonce: Fr | bigint = 0n) {
+    return await sendAndWait(this.token.methods.settle_escrow(owner, recipient, randomness, nonce), 'settle_escrow');
+  }
+
+  /**
+   * Pays part of an escrow to up to 4 recipients.
+   * Whatever is not paid out stays in escrow under a new note, returned as `remainder`.
+   */
+  public async settleSplit(owner: AztecAddress, payouts: EscrowPayout[], randomness: Fr, nonce: Fr | bigint = 0n) {
+    if (payouts.length > SETTLE_SPLIT_MAX_RECIPIENTS) {
+      throw new Error(`Cannot settle to more than ${SETTLE_SPLIT_MAX_RECIPIENTS} recipients at once`);
+    }
+    const recipients = padArray(
+      payouts.map(p => p.recipient),
+      SETTLE_SPLIT_MAX_RECIPIENTS,
+      ADDRESS_ZERO,
+    );
+    const amounts = padArray(
+      payouts.map(p => p.amount),
+      SETTLE_SPLIT_MAX_RECIPIENTS,
+      0n,
+    );
+    const receipt = await sendAndWait(
+      this.token.methods.settle_escrow_split(owner, recipients, amounts, randomness, nonce),
+      'settle_escrow_split',
+    );
+
+    const [remainder] = await this.getEscrowNotes(owner, receipt.txHash);
+    return { receipt, remainder: remainder as Escrow | undefined };
+  }
+
+  // Only succeeds once the escrow expiry block has been reached.
+  public async refund(depositor: AztecAddress, randomness: Fr, nonce: Fr | bigint = 0n) {
+    return await sendAndWait(this.token.methods.refund_escrow(depositor, randomness, nonce), 'refund_escrow');
+  }
+
+  /**
+   * Shares the escrow with any number of participants, sending one `share_escrow` tx per batch of 4.
+   * The participants must be registered as recipients in the caller's PXE.
+   * Resolves once every participant's PXE (the client's PXE unless `getParticipantPXE` says otherwise) has the note.
+   */
+  public async share(
+    participants: AztecAddress[],
+    randomness: Fr,
+    getParticipantPXE: (participant: AztecAddress) => PXE = () => this.pxe,
+  ) {
+    const receipts = [];
+    for (let i = 0; i < participants.length; i += SHARE_BATCH_SIZE) {
+      const batch = padArray(participants.slice(i, i + SHARE_BATCH_SIZE), SHARE_BATCH_SIZE, ADDRESS_ZERO);
+      const receipt = await sendAndWait(this.token.methods.share_escrow(batch, randomness), 'share_escrow');
+      receipts.push(receipt);
+    }
+
+    await Promise.all(
+      participants.map(participant =>
+        retryUntil(
+          async () => {
+            const shared = await this.getSharedEscrows(participant, getParticipantPXE(participant));
+            return shared.find(escrow => escrow.randomness.equals(randomness));
+          },
+          `escrow shared with ${participant.toShortString()}`,
+          SHARE_SYNC_TIMEOUT,
+        ),
+      ),
+    );
+    return receipts;
+  }
+
+  // Escrows that were shared with `participant`. They are a snapshot taken when sharing and can't be settled.
+  public async getSharedEscrows(participant: AztecAddress, pxe: PXE = this.pxe): Promise<Escrow[]> {
+    const notes = await pxe.getNotes({
+      contractAddress: this.token.address,
+      storageSlot: ESCROW_SHARES_STORAGE_SLOT,
+      owner: participant,
+    });
+    return notes.map(decodeEscrowNote);
+  }
+
+  // A page of the escrows visible to the calling wallet, owned by `owner` if given, read through the `get_escrows` view.
+  public async getEscrows(owner: AztecAddress = ADDRESS_ZERO, offset = 0): Promise<Escrow[]> {
+    const options = await this.token.methods.get_escrows(owner, offset).view();
+    return options.filter((option: any) => option._is_some).map((option: any) => decodeEscrowView(option._value));
+  }
+
+  // Escrows the PXE decrypted for `account` (as owner or depositor), optionally restricted to the ones created by `txHash`.
+  public async getEscrowNotes(account: AztecAddress, txHash?: TxHash): Promise<Escrow[]> {
+    const notes = await this.pxe.getNotes({
+      contractAddress: this.token.address,
+      storageSlot: ESCROWS_STORAGE_SLOT,
+      owner: account,
+      txHash,
+    });
+    return notes.map(decodeEscrowNote);
+  }
+}
@@ -0,0 +1,121 @@
+import { encodeShortString } from './metadata.js';
+import { AztecAddress, Fr, LogFilter, LogId, PXE, UnencryptedL2Log } from '@aztec/aztec.js';
+
+type ExtendedUnencryptedL2Log = Awaited<ReturnType<PXE['getUnencryptedLogs']>>['logs'][number];
+
+// Every public state change logs the event tag (its name packed in a field) and 3 fields, zero padded (see `events.nr`).
+export const EVENT_LEN = 4;
+
+export const TOKEN_EVENT_NAMES = [
+  'Transfer',
+  'Mint',
+  'Burn',
+  'Shield',
+  'Unshield',
+  'Approval',
+  'MinterChanged',
+  'AdminChanged',
+  'Paused',
+  'AdminProposed',
+  'MintQuotaSet',
+  'MintQuotaRemoved',
+] as const;
+
+export type TokenEventName = (typeof TOKEN_EVENT_NAMES)[number];
+
+// Private parties are logged as the zero address, e.g. the recipient of `mint_private` or the owner of a private burn.
+export type TokenEvent =
+  | { name: 'Transfer'; from: AztecAddress; to: AztecAddress; amount: bigint }
+  | { name: 'Mint'; minter: AztecAddress; to: AztecAddress; amount: bigint }
+  | { name: 'Burn'; from: AztecAddress; amount: bigint }
+  | { name: 'Shield'; from: AztecAddress; amount: bigint }
+  | { name: 'Unshield'; to: AztecAddress; amount: bigint }
+  | { name: 'Approval'; owner: AztecAddress; spender: AztecAddress; amount: bigint }
+  | { name: 'MinterChanged'; minter: AztecAddress; approved: boolean }
+  | { name: 'AdminChanged'; previousAdmin: AztecAddress; admin: AztecAddress }
+  | { name: 'Paused'; paused: boolean }
+  | { name: 'AdminProposed'; admin: AztecAddress; pendingAdmin: AztecAddress }
+  | { name: 'MintQuotaSet'; minter: AztecAddress; quota: bigint }
+  | { name: 'MintQuotaRemoved'; minter: AztecAddress };
+
+// An event along with the id of its log, to resume reading logs after it.
+export type TokenLogEvent = TokenEvent & { id: LogId };
+
+const EVENT_TAGS = new Map(TOKEN_EVENT_NAMES.map(name => [encodeShortString(name).toString(), name]));
+
+function getEventName(tag: Fr): TokenEventName | undefined {
+  return EVENT_TAGS.get(tag.toString());
+}
+
+// Decodes a log emitted by the Token contract, undefined for logs that don't follow the event layout.
+export function decodeTokenEvent(log: UnencryptedL2Log): TokenEvent | undefined {
+  if (log.data.length !== EVENT_LEN * Fr.SIZE_IN_BYTES) {
+    return undefined;
+  }
+  const [tag, a, b, c] = Array.from({ length: EVENT_LEN }, (_, i) =>
+    Fr.fromBuffer(log.data.subarray(i * Fr.SIZE_IN_BYTES, (i + 1) * Fr.SIZE_IN_BYTES)),
+  );
+  const name = getEventName(tag);
+  switch (name) {
+    case 'Transfer':
+      return { name, from: AztecAddress.fromField(a), to: AztecAddress.fromField(b), amount: c.toBigInt() };
+    case 'Mint':
+      return { name, minter: AztecAddress.fromField(a), to: AztecAddress.fromField(b), amount: c.toBigInt() };
+    case 'Burn':
+      return { name, from: AztecAddress.fromField(a), amount: b.toBigInt() };
+    case 'Shield':
+      return { name, from: AztecAddress.fromField(a), amount: b.toBigInt() };
+    case 'Unshield':
+      return { name, to: AztecAddress.fromField(a), amount: b.toBigInt() };
+    case 'Approval':
+      return { name, owner: AztecAddress.fromField(a), spender: AztecAddress.fromField(b), amount: c.toBigInt() };
+    case 'MinterChanged':
+      return { name, minter: AztecAddress.fromField(a), approved: !b.isZero() };
+    case 'AdminChanged':
+      return { name, previousAdmin: AztecAddress.fromField(a), admin: AztecAddress.fromField(b) };
+    case 'Paused':
+      return { name, paused: !a.isZero() };
+    case 'AdminProposed':
+      return { name, admin: AztecAddress.fromField(a), pendingAdmin: AztecAddress.fromField(b) };
+    case 'MintQuotaSet':
+      return { name, minter: AztecAddress.fromField(a), quota: b.toBigInt() };
+    case 'MintQuotaRemoved':
+      return { name, minter: AztecAddress.fromField(a) };
+    default:
+      return undefined;
+  }
+}
+
+// Decodes the logs returned by `getUnencryptedLogs`, skipping the ones that are not token events.
+export function decodeTokenEvents(logs: ExtendedUnencryptedL2Log[]): TokenLogEvent[] {
+  return logs.flatMap(({ id, log }) => {
+    const event = decodeTokenEvent(log);
+    return event ? [{ ...event, id }] : [];
+  });
+}
+
+/**
+ * Every event of the token matching `filter`, oldest first, read from the node's unencrypted logs.
+ * Logs are fetched page by page, as the node caps the number of logs returned per request.
+ */
+export async function getTokenEvents(
+  pxe: PXE,
+  tokenAddress: AztecAddress,
+  filter: Omit<LogFilter, 'contractAddress'> = {},
+): Promise<TokenLogEvent[]> {
+  const events: TokenLogEvent[] = [];
+  let afterLog = filter.afterLog;
+  for (;;) {
+    const { logs, maxLogsHit } = await pxe.getUnencryptedLogs({ ...filter, contractAddress: tokenAddress, afterLog });
+    events.push(...decodeTokenEvents(logs));
+    if (!maxLogsHit || logs.length === 0) {
+      return events;
+    }
+    afterLog = logs[logs.length - 1].id;
+  }
+}
+
+// Narrows a list of events to the ones named `name`.
+export function filterTokenEvents<N extends TokenEventName>(events: TokenLogEvent[], name: N) {
+  return events.filter((event): event is Extract<TokenLogEvent, { name: N }> => event.name === name);
+}
@@ -0,0 +1,343 @@
+import { ESCROWS_STORAGE_SLOT, ESCROW_NOTE_FIELDS } from './escrow_client.js';
+import { filterTokenEvents, getTokenEvents } from './events.js';
+import { MEMOS_STORAGE_SLOT, decodeMemoNote } from './memo.js';
+import { computeBalanceSlot } from './note_maintenance.js';
+import { PENDING_SHIELDS_STORAGE_SLOT } from './shield_manager.js';
+import { AztecAddress, Fr, L2Block, PXE, TxHash } from '@aztec/aztec.js';
+import { computePublicDataTreeLeafSlot, siloNullifier } from '@aztec/circuits.js/abis';
+import { pedersenHash } from '@aztec/foundation/crypto';
+
+type L2Tx = ReturnType<L2Block['getTx']>;
+
+// The storage slot of `total_supply` in the Token contract.
+export const TOTAL_SUPPLY_STORAGE_SLOT = new Fr(4);
+
+// The storage slot of `shield_origins` in the Token contract.
+export const SHIELD_ORIGINS_STORAGE_SLOT = new Fr(18);
+
+export type HistoryEntryKind =
+  | 'mint'
+  | 'shield'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'unshield'
+  | 'burn'
+  | 'escrow'
+  | 'settlement'
+  | 'refund'
+  | 'merge';
+
+// A tx that changed the private balance of the account, or its escrows.
+export interface HistoryEntry {
+  txHash: TxHash;
+  blockNumber: number;
+  kind: HistoryEntryKind;
+  // change of the private balance, negative when tokens left it
+  amount: bigint;
+  // private balance after the tx
+  balance: bigint;
+  // set when the tokens were received with `transfer_with_memo`
+  memo?: Fr;
+}
+
+// `OwnedValueNote`, `TransparentNote` and `EscrowNote` respectively.
+export type TrackedNoteType = 'balance' | 'shield' | 'escrow';
+
+// A note of the account seen by the service, kept once spent as the PXE only returns unspent notes.
+export interface TrackedNote {
+  type: TrackedNoteType;
+  items: Fr[];
+  // the tx that created the note
+  txHash: TxHash;
+  spent: boolean;
+  // the tx that nullified the note, once found
+  spentIn?: TxHash;
+}
+
+// Where the service keeps the notes it has seen. Notes spent before being seen are missing from the history.
+export interface HistoryStore {
+  put(note: TrackedNote): Promise<void>;
+  list(): Promise<TrackedNote[]>;
+}
+
+function getNoteKey(note: TrackedNote) {
+  return `${note.txHash}:${note.items.map(item => item.toString()).join(',')}`;
+}
+
+export class InMemoryHistoryStore implements HistoryStore {
+  private notes: Map<string, TrackedNote> = new Map();
+
+  public put(note: TrackedNote) {
+    this.notes.set(getNoteKey(note), { ...note });
+    return Promise.resolve();
+  }
+
+  public list() {
+    return Promise.resolve([...this.notes.values()].map(note => ({ ...note })));
+  }
+}
+
+function sumAmounts(notes: TrackedNote[], type: TrackedNoteType) {
+  return notes.filter(n => n.type === type).reduce((sum, n) => sum + n.items[0].toBigInt(), 0n);
+}
+
+function getEscrowParty(note: TrackedNote, field: 'owner' | 'depositor') {
+  return AztecAddress.fromField(note.items[ESCROW_NOTE_FIELDS.indexOf(field)]);
+}
+
+// Same derivation as `Map::at` in aztec-nr.
+function computeMapSlot(slot: Fr, key: Fr) {
+  return Fr.fromBuffer(pedersenHash([slot.toBuffer(), key.toBuffer()]));
+}
+
+/**
+ * The nullifiers a balance or escrow note created in `tx` can have, one per commitment of the tx.
+ * The note only knows its randomness, not which of the commitments is its own.
+ */
+export function computeCandidateNullifiers(tokenAddress: AztecAddress, randomness: Fr, tx: L2Tx): Fr[] {
+  return tx.newCommitments
+    .filter(commitment => !commitment.isZero())
+    .map(commitment => {
+      const innerNullifier = Fr.fromBuffer(pedersenHash([commitment.toBuffer(), randomness.toBuffer()]));
+      return siloNullifier(tokenAddress, innerNullifier);
+    });
+}
+
+/**
+ * Builds the ledger of the private balance of `account`, from its notes in the PXE and the txs that created or spent them.
+ * The PXE forgets spent notes, so `sync` must run often enough to see every note before it's spent,
+ * and pending shields must be registered in the PXE (see `ShieldManager`) for their redemption to be told apart from a mint.
+ */
+export class HistoryService {
+  private txs: Map<string, L2Tx> = new Map();
+  // the last block searched for nullifiers, and the notes searched for up to it
+  private scannedBlock = 0;
+  private scannedNotes: Set<string> = new Set();
+
+  constructor(
+    private pxe: PXE,
+    private tokenAddress: AztecAddress,
+    private account: AztecAddress,
+    private store: HistoryStore = new InMemoryHistoryStore(),
+  ) {}
+
+  // Records the notes of the account that are new in the PXE, and finds the txs that spent the ones that are gone.
+  public async sync() {
+    const active = await this.getActiveNotes();
+    const activeKeys = new Set(active.map(getNoteKey));
+    const tracked = await this.store.list();
+    const trackedKeys = new Set(tracked.map(getNoteKey));
+
+    const added = active.filter(note => !trackedKeys.has(getNoteKey(note)));
+    await Promise.all(added.map(note => this.store.put(note)));
+
+    // notes gone from the PXE are searched for until the tx that spent them is found
+    const searched = [...tracked.filter(note => !note.spentIn), ...added];
+    await this.findSpendingTxs(searched);
+    // the PXE may lag behind the blocks, so a nullifier found on chain is enough
+    const spent = searched.filter(note => note.spentIn || (!note.spent && !activeKeys.has(getNoteKey(note))));
+    await Promise.all(spent.map(note => this.store.put({ ...note, spent: true })));
+  }
+
+  // Every tx that affected the account, oldest first, with the private balance after each one.
+  public async getEntries(): Promise<HistoryEntry[]> {
+    const notes = await this.store.list();
+    const txHashes = new Map<string, TxHash>();
+    for (const note of notes) {
+      txHashes.set(note.txHash.toString(), note.txHash);
+      if (note.spentIn) {
+        txHashes.set(note.spentIn.toString(), note.spentIn);
+      }
+    }
+
+    const entries = [];
+    for (const txHash of txHashes.values()) {
+      const created = notes.filter(note => note.txHash.equals(txHash));
+      const spent = notes.filter(note => note.spentIn?.equals(txHash));
+      const entry = await this.getEntry(txHash, created, spent);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+
+    entries.sort((a, b) => a.blockNumber - b.blockNumber);
+    let balance = 0n;
+    return entries.map(entry => {
+      balance += entry.amount;
+      return { ...entry, balance };
+    });
+  }
+
+  private async getEntry(
+    txHash: TxHash,
+    created: TrackedNote[],
+    spent: TrackedNote[],
+  ): Promise<Omit<HistoryEntry, 'balance'> | undefined> {
+    const tx = await this.getTx(txHash);
+    const amount = sumAmounts(created, 'balance') - sumAmounts(spent, 'balance');
+    const entry = { txHash, blockNumber: tx.blockNumber, amount };
+
+    const createdEscrow = created.some(note => note.type === 'escrow');
+    const spentEscrow = spent.find(note => note.type === 'escrow');
+    const spentShield = spent.find(note => note.type === 'shield');
+
+    if (spentEscrow) {
+      const isRefund =
+        amount > 0n &&
+        getEscrowParty(spentEscrow, 'depositor').equals(this.account) &&
+        !getEscrowParty(spentEscrow, 'owner').equals(this.account);
+      return { ...entry, kind: isRefund ? 'refund' : 'settlement' };
+    }
+    if (createdEscrow) {
+      return { ...entry, kind: 'escrow' };
+    }
+    if (spentShield) {
+      return { ...entry, kind: (await this.writesTotalSupply(spentShield.txHash)) ? 'mint' : 'shield' };
+    }
+    if (amount > 0n) {
+      // redeemed shields that were never seen pending also write to public storage
+      const memo = await this.getMemo(txHash);
+      return { ...entry, kind: tx.newPublicDataWrites.length > 0 ? 'shield' : 'transfer_in', memo };
+    }
+    if (amount < 0n) {
+      if (await this.writesTotalSupply(txHash)) {
+        return { ...entry, kind: 'burn' };
+      }
+      return { ...entry, kind: (await this.emitsUnshield(txHash)) ? 'unshield' : 'transfer_out' };
+    }
+    if (spent.length > 0) {
+      return { ...entry, kind: 'merge' };
+    }
+    // pending shields don't change the balance until they are redeemed
+    return undefined;
+  }
+
+  private async getActiveNotes(): Promise<TrackedNote[]> {
+    const slots: [TrackedNoteType, Fr][] = [
+      ['balance', computeBalanceSlot(this.account)],
+      ['shield', PENDING_SHIELDS_STORAGE_SLOT],
+      ['escrow', ESCROWS_STORAGE_SLOT],
+    ];
+    const notes = await Promise.all(
+      slots.map(async ([type, storageSlot]) => {
+        const notes = await this.pxe.getNotes({ contractAddress: this.tokenAddress, storageSlot, owner: this.account });
+        return notes.map(({ note, txHash }) => ({ type, items: note.items, txHash, spent: false }));
+      }),
+    );
+    return notes.flat();
+  }
+
+  /**
+   * Looks for the nullifiers of `notes` in the blocks mined since the last search, or since their creation for the notes
+   * that weren't searched for yet. Sets `spentIn` on the notes found.
+   * Balance and escrow notes are nullified with their randomness, so the nullifier can be derived from the commitments of the tx
+   * that created them. Shields are spent without revealing their secret, but `redeem_shield` and `cancel_shield` clear their origin.
+   * Notes whose creating tx the PXE doesn't return yet are left for the next search.
+   */
+  private async findSpendingTxs(notes: TrackedNote[]) {
+    const candidates = new Map<string, TrackedNote>();
+    const searched = [];
+    let fromBlock = this.scannedBlock + 1;
+    for (const note of notes) {
+      const tx = await this.findTx(note.txHash);
+      if (!tx) {
+        continue;
+      }
+      searched.push(note);
+      if (!this.scannedNotes.has(getNoteKey(note))) {
+        fromBlock = Math.min(fromBlock, tx.blockNumber);
+      }
+      for (const candidate of this.getCandidateNullifiers(note, tx)) {
+        candidates.set(candidate.toString(), note);
+      }
+    }
+
+    const toBlock = await this.pxe.getBlockNumber();
+    for (let blockNumber = fromBlock; candidates.size > 0 && blockNumber <= toBlock; blockNumber++) {
+      const block = await this.pxe.getBlock(blockNumber);
+      for (const tx of block?.getTxs() ?? []) {
+        const effects = [...tx.newNullifiers, ...tx.newPublicDataWrites.map(write => write.leafIndex)];
+        for (const effect of effects) {
+          const note = candidates.get(effect.toString());
+          if (note && !note.txHash.equals(tx.txHash)) {
+            note.spentIn = tx.txHash;
+          }
+        }
+      }
+    }
+
+    this.scannedBlock = toBlock;
+    this.scannedNotes = new Set(searched.filter(note => !note.spentIn).map(getNoteKey));
+  }
+
+  private getCandidateNullifiers(note: TrackedNote, tx: L2Tx): Fr[] {
+    if (note.type === 'shield') {
+      const [amount, secretHash] = note.items;
+      const shieldId = Fr.fromBuffer(pedersenHash([amount.toBuffer(), secretHash.toBuffer()]));
+      return [computePublicDataTreeLeafSlot(this.tokenAddress, computeMapSlot(SHIELD_ORIGINS_STORAGE_SLOT, shieldId))];
+    }
+    return computeCandidateNullifiers(this.tokenAddress, note.items[2], tx);
+  }
+
+  private async writesTotalSupply(txHash: TxHash) {
+    const tx = await this.getTx(txHash);
+    const slot = computePublicDataTreeLeafSlot(this.tokenAddress, TOTAL_SUPPLY_STORAGE_SLOT);
+    return tx.newPublicDataWrites.some(write => write.leafIndex.equals(slot));
+  }
+
+  // `unshield` credits the public balance in the public function it enqueues, which logs the event.
+  private async emitsUnshield(txHash: TxHash) {
+    const events = await getTokenEvents(this.pxe, this.tokenAddress, { txHash });
+    return filterTokenEvents(events, 'Unshield').length > 0;
+  }
+
+  private async getMemo(txHash: TxHash) {
+    const notes = await this.pxe.getNotes({
+      contractAddress: this.tokenAddress,
+      storageSlot: MEMOS_STORAGE_SLOT,
+      owner: this.account,
+      txHash,
+    });
+    return notes.map(decodeMemoNote)[0]?.memo;
+  }
+
+  private async getTx(txHash: TxHash) {
+    const tx = await this.findTx(txHash);
+    if (!tx) {
+      throw new Error(`Tx ${txHash} not found`);
+    }
+    return tx;
+  }
+
+  private async findTx(txHash: TxHash) {
+    let tx = this.txs.get(txHash.toString());
+    if (!tx) {
+      tx = await this.pxe.getTx(txHash);
+      if (tx) {
+        this.txs.set(txHash.toString(), tx);
+      }
+    }
+    return tx;
+  }
+}
+
+const CSV_COLUMNS = ['blockNumber', 'txHash', 'kind', 'amount', 'balance', 'memo'] as const;
+
+export function historyToCSV(entries: HistoryEntry[]) {
+  const rows = entries.map(entry => CSV_COLUMNS.map(column => `${entry[column] ?? ''}`).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+export function historyToJSON(entries: HistoryEntry[]) {
+  return JSON.stringify(
+    entries.map(entry => ({
+      ...entry,
+      txHash: entry.txHash.toString(),
+      amount: entry.amount.toString(),
+      balance: entry.balance.toString(),
+      memo: entry.memo?.toString(),
+    })),
+    null,
+    2,
+  );
+}
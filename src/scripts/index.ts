@@ -1,4 +1,23 @@
+export * from './allowance.js';
+export * from './amount.js';
+export * from './authwit.js';
+export * from './batch_transfer.js';
 export * from './call_contract_function.js';
+export * from './constants.js';
 export * from './deploy_contract.js';
+export * from './errors.js';
+export * from './escrow_client.js';
+export * from './events.js';
+export * from './history.js';
+export * from './memo.js';
+export * from './metadata.js';
+export * from './note_maintenance.js';
+export * from './pagination.js';
+export * from './pause.js';
+export * from './roles.js';
+export * from './shield_manager.js';
+export * from './simulate_contract_function.js';
+export * from './supply.js';
+export * from './token_engine.js';
 export { getWallet } from './util.js';
 export * from './view_contract_function.js';
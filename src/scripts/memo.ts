@@ -0,0 +1,96 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { computeBalanceSlot } from './note_maintenance.js';
+import { sendAndWait } from './util.js';
+import { AztecAddress, ExtendedNote, Fr, Note, PXE, TxHash } from '@aztec/aztec.js';
+
+// The storage slot of `memos` in the Token contract.
+export const MEMOS_STORAGE_SLOT = new Fr(21);
+
+// Serialization order of `MemoNote` (see `memo_note.nr`).
+export const MEMO_NOTE_FIELDS = ['amount', 'owner', 'randomness', 'sender', 'memo'] as const;
+
+export interface Memo {
+  amount: bigint;
+  // the recipient of the transfer
+  owner: AztecAddress;
+  sender: AztecAddress;
+  memo: Fr;
+  txHash: TxHash;
+}
+
+// A private note received by an account, along with the memo it was sent with if any.
+export interface ReceivedPayment {
+  amount: bigint;
+  owner: AztecAddress;
+  txHash: TxHash;
+  note: ExtendedNote;
+  memo?: Memo;
+}
+
+type MemoNoteField = (typeof MEMO_NOTE_FIELDS)[number];
+
+function getNoteField(note: Note, name: MemoNoteField): Fr {
+  return note.items[MEMO_NOTE_FIELDS.indexOf(name)];
+}
+
+export function decodeMemoNote(extendedNote: ExtendedNote): Memo {
+  const { note, txHash } = extendedNote;
+  return {
+    amount: getNoteField(note, 'amount').toBigInt(),
+    owner: AztecAddress.fromField(getNoteField(note, 'owner')),
+    sender: AztecAddress.fromField(getNoteField(note, 'sender')),
+    memo: getNoteField(note, 'memo'),
+    txHash,
+  };
+}
+
+/**
+ * Pairs balance notes with the memos sent along with them.
+ * A memo matches a note created by the same tx, for the same owner and amount, and is used at most once.
+ */
+export function joinMemos(notes: ExtendedNote[], memos: Memo[]): ReceivedPayment[] {
+  const unmatched = [...memos];
+  return notes.map(note => {
+    const amount = note.note.items[0].toBigInt();
+    const index = unmatched.findIndex(
+      memo => memo.txHash.equals(note.txHash) && memo.owner.equals(note.owner) && memo.amount === amount,
+    );
+    const [memo] = index === -1 ? [] : unmatched.splice(index, 1);
+    return { amount, owner: note.owner, txHash: note.txHash, note, memo };
+  });
+}
+
+export async function transferWithMemo(
+  token: TokenContract,
+  from: AztecAddress,
+  to: AztecAddress,
+  amount: bigint,
+  memo: Fr | bigint,
+  nonce: Fr | bigint = 0n,
+) {
+  return await sendAndWait(token.methods.transfer_with_memo(from, to, amount, memo, nonce), 'transfer_with_memo');
+}
+
+// Memos received by `owner`, optionally restricted to the ones sent by `txHash`.
+export async function getMemos(pxe: PXE, token: TokenContract, owner: AztecAddress, txHash?: TxHash) {
+  const notes = await pxe.getNotes({
+    contractAddress: token.address,
+    storageSlot: MEMOS_STORAGE_SLOT,
+    owner,
+    txHash,
+  });
+  return notes.map(decodeMemoNote);
+}
+
+/**
+ * The unspent private notes of `owner` with their memos, to reconcile references against received payments.
+ * Notes that were already spent are no longer returned by the PXE, while their memos still are.
+ */
+export async function getReceivedPayments(pxe: PXE, token: TokenContract, owner: AztecAddress) {
+  const notes = await pxe.getNotes({
+    contractAddress: token.address,
+    storageSlot: computeBalanceSlot(owner),
+    owner,
+  });
+  return joinMemos(notes, await getMemos(pxe, token, owner));
+}
@@ -0,0 +1,39 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { Fr } from '@aztec/aztec.js';
+
+// `name` and `symbol` are stored as UTF-8 strings packed in a field, so they can't be longer than this.
+export const MAX_SHORT_STRING_LENGTH = 31;
+
+export interface TokenMetadata {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export function encodeShortString(value: string): Fr {
+  const bytes = Buffer.from(value, 'utf8');
+  if (bytes.length > MAX_SHORT_STRING_LENGTH) {
+    throw new Error(`"${value}" is longer than ${MAX_SHORT_STRING_LENGTH} bytes`);
+  }
+  return Fr.fromBuffer(Buffer.concat([Buffer.alloc(Fr.SIZE_IN_BYTES - bytes.length), bytes]));
+}
+
+export function decodeShortString(value: bigint): string {
+  const bytes = new Fr(value).toBuffer();
+  const start = bytes.findIndex(byte => byte !== 0);
+  return start === -1 ? '' : bytes.subarray(start).toString('utf8');
+}
+
+// Decodes the values returned by the `name`, `symbol` and `decimals` views.
+export function decodeTokenMetadata(name: bigint, symbol: bigint, decimals: bigint | number): TokenMetadata {
+  return { name: decodeShortString(name), symbol: decodeShortString(symbol), decimals: Number(decimals) };
+}
+
+export async function getTokenMetadata(token: TokenContract): Promise<TokenMetadata> {
+  const [name, symbol, decimals] = await Promise.all([
+    token.methods.name().view(),
+    token.methods.symbol().view(),
+    token.methods.decimals().view(),
+  ]);
+  return decodeTokenMetadata(name, symbol, decimals);
+}
@@ -0,0 +1,63 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { MAX_NOTES_PER_CALL } from './constants.js';
+import { sendAndWait } from './util.js';
+import { AztecAddress, Fr, PXE, Wallet } from '@aztec/aztec.js';
+import { pedersenHash } from '@aztec/foundation/crypto';
+
+// The storage slot of `balances` in the Token contract.
+export const BALANCES_STORAGE_SLOT = new Fr(3);
+
+// The slot of the private notes of `owner`, derived from `balances` like `BalancesMap::at` does.
+export function computeBalanceSlot(owner: AztecAddress): Fr {
+  return Fr.fromBuffer(pedersenHash([BALANCES_STORAGE_SLOT.toBuffer(), owner.toBuffer()]));
+}
+
+/**
+ * Keeps the private balance of an account spendable.
+ * `transfer` only reads `MAX_NOTES_PER_CALL` notes, so a balance spread over many small notes can revert
+ * with "Balance too low" even though `balance_of_private` is high enough.
+ */
+export class NoteMaintenance {
+  constructor(private token: TokenContract, private pxe: PXE) {}
+
+  public withWallet(wallet: Wallet) {
+    return new NoteMaintenance(this.token.withWallet(wallet), this.pxe);
+  }
+
+  // Amounts of the private notes of `owner` known to the PXE, smallest first.
+  public async getNoteAmounts(owner: AztecAddress): Promise<bigint[]> {
+    const notes = await this.pxe.getNotes({
+      contractAddress: this.token.address,
+      storageSlot: computeBalanceSlot(owner),
+      owner,
+    });
+    return notes.map(({ note }) => note.items[0].toBigInt()).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  public async getNoteCount(owner: AztecAddress) {
+    return (await this.getNoteAmounts(owner)).length;
+  }
+
+  // Merges the `MAX_NOTES_PER_CALL` smallest notes of `owner` into one.
+  public async merge(owner: AztecAddress, nonce: Fr | bigint = 0n) {
+    return await sendAndWait(this.token.methods.merge_notes(owner, nonce), 'merge_notes');
+  }
+
+  /**
+   * Merges notes until any `MAX_NOTES_PER_CALL` notes of `owner` are enough to cover `amount`,
+   * so that a transfer of `amount` can't revert because of how the balance is split.
+   * Returns the number of merges, each being a tx.
+   */
+  public async prepareTransfer(owner: AztecAddress, amount: bigint) {
+    let merges = 0;
+    for (;;) {
+      const amounts = await this.getNoteAmounts(owner);
+      const smallestSum = amounts.slice(0, MAX_NOTES_PER_CALL).reduce((sum, value) => sum + value, 0n);
+      if (amounts.length <= MAX_NOTES_PER_CALL || smallestSum >= amount) {
+        return merges;
+      }
+      await this.merge(owner);
+      merges++;
+    }
+  }
+}
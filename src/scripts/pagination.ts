@@ -0,0 +1,45 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { AztecAddress, Fr } from '@aztec/aztec.js';
+
+// Notes returned by a single call to a paginated view (`MAX_NOTES_PER_PAGE` in aztec-nr).
+export const NOTES_PER_PAGE = 10;
+
+export interface PrivateNote {
+  amount: bigint;
+  owner: AztecAddress;
+  randomness: Fr;
+}
+
+/**
+ * Walks a paginated view returning `[Option<Note>; NOTES_PER_PAGE]`, until it returns an empty page.
+ * @param fetchPage - calls the view for the given offset
+ * @param decode - decodes the `_value` of a populated option
+ */
+export async function* paginateNotes<T>(
+  fetchPage: (offset: number) => Promise<any[]>,
+  decode: (value: any) => T,
+): AsyncGenerator<T> {
+  for (let offset = 0; ; offset += NOTES_PER_PAGE) {
+    const page = (await fetchPage(offset)).filter(option => option._is_some);
+    if (page.length === 0) {
+      return;
+    }
+    for (const option of page) {
+      yield decode(option._value);
+    }
+  }
+}
+
+// `get_private_notes` returns `Option<OwnedValueNote>` structs decoded from the artifact return types.
+function decodePrivateNoteView(value: any): PrivateNote {
+  return {
+    amount: value.amount.value,
+    owner: AztecAddress.fromBigInt(value.owner.inner),
+    randomness: new Fr(value.randomness),
+  };
+}
+
+// Private balance notes of `owner`, as seen by the token's wallet.
+export function listPrivateNotes(token: TokenContract, owner: AztecAddress) {
+  return paginateNotes(offset => token.methods.get_private_notes(owner, offset).view(), decodePrivateNoteView);
+}
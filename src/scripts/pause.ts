@@ -0,0 +1,21 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { sendAndWait } from './util.js';
+
+// Emergency stop of the Token: while paused, every function moving tokens reverts with "token is paused".
+// `token` must be bound to the admin's wallet to pause or unpause.
+
+export async function setPaused(token: TokenContract, paused: boolean) {
+  return await sendAndWait(token.methods.set_paused(paused), 'set_paused');
+}
+
+export function pause(token: TokenContract) {
+  return setPaused(token, true);
+}
+
+export function unpause(token: TokenContract) {
+  return setPaused(token, false);
+}
+
+export async function isPaused(token: TokenContract): Promise<boolean> {
+  return await token.methods.is_paused().view();
+}
@@ -0,0 +1,48 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { filterTokenEvents, getTokenEvents } from './events.js';
+import { sendAndWait } from './util.js';
+import { AztecAddress, PXE } from '@aztec/aztec.js';
+
+export interface MinterChange {
+  minter: AztecAddress;
+  approved: boolean;
+}
+
+// The admin handover takes two steps: the admin proposes a new admin, which then accepts the role.
+// `token` is bound to the wallet sending the tx (the admin when proposing, the new admin when accepting).
+
+export async function proposeAdmin(token: TokenContract, newAdmin: AztecAddress) {
+  return await sendAndWait(token.methods.propose_admin(newAdmin), 'propose_admin');
+}
+
+export async function acceptAdmin(token: TokenContract) {
+  return await sendAndWait(token.methods.accept_admin(), 'accept_admin');
+}
+
+export async function getAdmin(token: TokenContract) {
+  return AztecAddress.fromBigInt(await token.methods.admin().view());
+}
+
+// The zero address when no handover is pending.
+export async function getPendingAdmin(token: TokenContract) {
+  return AztecAddress.fromBigInt(await token.methods.pending_admin().view());
+}
+
+// Every `set_minter` call made on the token (and the constructor, for the initial admin), oldest first.
+export async function getMinterHistory(pxe: PXE, tokenAddress: AztecAddress): Promise<MinterChange[]> {
+  const events = filterTokenEvents(await getTokenEvents(pxe, tokenAddress), 'MinterChanged');
+  return events.map(({ minter, approved }) => ({ minter, approved }));
+}
+
+// `minters` is a `Map` that can't be enumerated, so the current minters are rebuilt by replaying the history.
+export async function getMinters(pxe: PXE, tokenAddress: AztecAddress): Promise<AztecAddress[]> {
+  const minters = new Map<string, AztecAddress>();
+  for (const { minter, approved } of await getMinterHistory(pxe, tokenAddress)) {
+    if (approved) {
+      minters.set(minter.toString(), minter);
+    } else {
+      minters.delete(minter.toString());
+    }
+  }
+  return [...minters.values()];
+}
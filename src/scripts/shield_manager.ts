@@ -0,0 +1,196 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { sendAndWait } from './util.js';
+import { AztecAddress, ExtendedNote, Fr, Note, TxHash, Wallet, computeMessageSecretHash } from '@aztec/aztec.js';
+
+// The storage slot of `pending_shields` in the Token contract.
+export const PENDING_SHIELDS_STORAGE_SLOT = new Fr(5);
+
+// A `TransparentNote` created by `mint_private` or `shield`, redeemable by whoever knows the secret.
+export interface ShieldRecord {
+  secret: Fr;
+  secretHash: Fr;
+  amount: bigint;
+  // set once the tx creating the note is mined
+  txHash?: TxHash;
+  // whether the note was added to the PXE, which `redeem_shield` needs to find it
+  registered: boolean;
+  redeemed: boolean;
+  // returned to the public balance of the account that shielded
+  cancelled: boolean;
+}
+
+// Where the manager keeps its records. Secrets are stored as is, so persistent stores must be kept private.
+export interface ShieldStore {
+  put(record: ShieldRecord): Promise<void>;
+  get(secretHash: Fr): Promise<ShieldRecord | undefined>;
+  list(): Promise<ShieldRecord[]>;
+}
+
+export class InMemoryShieldStore implements ShieldStore {
+  private records: Map<string, ShieldRecord> = new Map();
+
+  public put(record: ShieldRecord) {
+    this.records.set(record.secretHash.toString(), { ...record });
+    return Promise.resolve();
+  }
+
+  public get(secretHash: Fr) {
+    const record = this.records.get(secretHash.toString());
+    return Promise.resolve(record && { ...record });
+  }
+
+  public list() {
+    return Promise.resolve([...this.records.values()].map(record => ({ ...record })));
+  }
+}
+
+/**
+ * Keeps track of the secrets of pending shields, so that they can be redeemed later on.
+ * Notes are registered in the wallet's PXE, so redeeming must be done by the same wallet.
+ */
+export class ShieldManager {
+  constructor(
+    private token: TokenContract,
+    private wallet: Wallet,
+    private store: ShieldStore = new InMemoryShieldStore(),
+  ) {}
+
+  // Creates and stores a secret for a shield of `amount`, to be passed to `mint_private` or `shield`.
+  // Each shield gets a fresh secret, as `shield` rejects an amount and secret hash that a pending shield uses.
+  public async createSecret(amount: bigint): Promise<ShieldRecord> {
+    const secret = Fr.random();
+    const record = {
+      secret,
+      secretHash: computeMessageSecretHash(secret),
+      amount,
+      registered: false,
+      redeemed: false,
+      cancelled: false,
+    };
+    await this.store.put(record);
+    return record;
+  }
+
+  public async mintPrivate(amount: bigint) {
+    const { secretHash } = await this.createSecret(amount);
+    const receipt = await sendAndWait(
+      this.token.withWallet(this.wallet).methods.mint_private(amount, secretHash),
+      'mint_private',
+    );
+    return await this.track(secretHash, receipt.txHash);
+  }
+
+  public async shield(from: AztecAddress, amount: bigint, nonce: Fr | bigint = 0n) {
+    const { secretHash } = await this.createSecret(amount);
+    const receipt = await sendAndWait(
+      this.token.withWallet(this.wallet).methods.shield(from, amount, secretHash, nonce),
+      'shield',
+    );
+    return await this.track(secretHash, receipt.txHash);
+  }
+
+  // Records the mined tx that created the note for `secretHash` and registers the note in the PXE.
+  public async track(secretHash: Fr, txHash: TxHash) {
+    const record = await this.getRecord(secretHash);
+    record.txHash = txHash;
+    await this.store.put(record);
+    return await this.register(record);
+  }
+
+  // Registers the notes of mined shields that are not in the PXE yet, e.g. when the store was loaded from disk.
+  public async registerPending() {
+    const records = await this.store.list();
+    return await Promise.all(records.filter(r => r.txHash && !r.registered).map(r => this.register(r)));
+  }
+
+  // Shields that were mined but not redeemed or cancelled yet.
+  public async listUnclaimed(): Promise<ShieldRecord[]> {
+    const records = await this.store.list();
+    return records.filter(r => r.txHash && !r.redeemed && !r.cancelled);
+  }
+
+  public async redeem(secretHash: Fr, to: AztecAddress) {
+    const record = await this.getRecord(secretHash);
+    if (!record.registered) {
+      await this.register(record);
+    }
+    const receipt = await sendAndWait(
+      this.token.withWallet(this.wallet).methods.redeem_shield(to, record.amount, record.secret),
+      'redeem_shield',
+    );
+    await this.store.put({ ...record, registered: true, redeemed: true });
+    return receipt;
+  }
+
+  /**
+   * Returns a shield created by `shield` to the public balance of the wallet, which must be the one that shielded.
+   * Uses the secret, so it works at any time. Shields created by `mint_private` can't be cancelled.
+   */
+  public async cancel(secretHash: Fr) {
+    const record = await this.getRecord(secretHash);
+    if (!record.registered) {
+      await this.register(record);
+    }
+    const receipt = await sendAndWait(
+      this.token.withWallet(this.wallet).methods.cancel_shield(record.amount, record.secret),
+      'cancel_shield',
+    );
+    await this.store.put({ ...record, registered: true, cancelled: true });
+    return receipt;
+  }
+
+  // Like `cancel`, but without using the secret, which is only possible once `getReclaimableAt` is reached.
+  public async reclaim(secretHash: Fr) {
+    const record = await this.getRecord(secretHash);
+    const receipt = await reclaimShield(this.token.withWallet(this.wallet), record.amount, secretHash);
+    await this.store.put({ ...record, cancelled: true });
+    return receipt;
+  }
+
+  // The block from which the shield can be reclaimed, 0 if it's not pending or wasn't created by `shield`.
+  public async getReclaimableAt(secretHash: Fr): Promise<bigint> {
+    const { amount } = await this.getRecord(secretHash);
+    return await this.token.methods.shield_reclaimable_at(amount, secretHash).view();
+  }
+
+  // Redeems every unclaimed shield to `to`, one tx each.
+  public async redeemAll(to: AztecAddress) {
+    const receipts = [];
+    for (const { secretHash } of await this.listUnclaimed()) {
+      receipts.push(await this.redeem(secretHash, to));
+    }
+    return receipts;
+  }
+
+  private async register(record: ShieldRecord) {
+    if (!record.txHash) {
+      throw new Error(`Shield ${record.secretHash.toShortString()} was not mined yet`);
+    }
+    const note = new Note([new Fr(record.amount), record.secretHash]);
+    await this.wallet.addNote(
+      new ExtendedNote(
+        note,
+        this.wallet.getCompleteAddress().address,
+        this.token.address,
+        PENDING_SHIELDS_STORAGE_SLOT,
+        record.txHash,
+      ),
+    );
+    const registered = { ...record, registered: true };
+    await this.store.put(registered);
+    return registered;
+  }
+
+  private async getRecord(secretHash: Fr) {
+    const record = await this.store.get(secretHash);
+    if (!record) {
+      throw new Error(`No shield found for secret hash ${secretHash.toShortString()}`);
+    }
+    return record;
+  }
+}
+
+// Reclaims a shield for which the secret was lost, `token` must be bound to the wallet that shielded.
+export async function reclaimShield(token: TokenContract, amount: bigint, secretHash: Fr) {
+  return await sendAndWait(token.methods.reclaim_shield(amount, secretHash), 'reclaim_shield');
+}
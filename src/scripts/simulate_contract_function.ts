@@ -0,0 +1,315 @@
+import { Payment, SHIELD_RECLAIM_DELAY } from './constants.js';
+import { TokenErrorCode, describeError, parseTokenError } from './errors.js';
+import { ESCROWS_STORAGE_SLOT, decodeEscrowNote } from './escrow_client.js';
+import { computeCandidateNullifiers } from './history.js';
+import { computeBalanceSlot } from './note_maintenance.js';
+import { MAX_U120, TokenEngine, TokenEngineError } from './token_engine.js';
+import { convertArgs, getWallet } from './util.js';
+import { AztecAddress, CompleteAddress, Contract, Fr, PXE, computeMessageSecretHash } from '@aztec/aztec.js';
+import { ContractArtifact } from '@aztec/foundation/abi';
+
+export type BalanceKind = 'public' | 'private';
+
+// A balance that the simulated call would change.
+export interface BalanceChange {
+  owner: AztecAddress;
+  kind: BalanceKind;
+  // negative when tokens leave the balance
+  amount: bigint;
+  // missing for the private balances of accounts whose notes the PXE can't read
+  before?: bigint;
+  after?: bigint;
+}
+
+// A note of the wallet that the simulated call would nullify.
+export interface SpentNote {
+  type: 'balance' | 'escrow';
+  amount: bigint;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  // what the revert means if the token reverted, the simulator error otherwise
+  revertReason?: string;
+  // set when the token reverted
+  errorCode?: TokenErrorCode;
+  balanceChanges: BalanceChange[];
+  // set when the PXE accepted the call but replaying it failed, `balanceChanges` is then empty as they are unknown
+  warning?: string;
+  // notes created by the call, whoever owns them
+  createdNotes: number;
+  // notes of the wallet nullified by the call, the ones in `spentNotes`
+  nullifiedNotes: number;
+  spentNotes: SpentNote[];
+}
+
+// Arguments by parameter name, as taken by `convertArgs`: addresses are `{ address }` structs.
+type NamedArgs = { [name: string]: any };
+
+const ADDRESS_ZERO = AztecAddress.fromBigInt(0n);
+
+function toAddress(value: any) {
+  return AztecAddress.fromBigInt(BigInt(value?.address ?? value));
+}
+
+function toBigInt(value: any) {
+  return BigInt(value.toString());
+}
+
+// `redeem_shield` and `cancel_shield` take the secret of the shield, `shield` and `reclaim_shield` its hash.
+function getSecretHash(args: NamedArgs) {
+  if (args.secret === undefined) {
+    return toBigInt(args.secret_hash);
+  }
+  return computeMessageSecretHash(new Fr(toBigInt(args.secret))).toBigInt();
+}
+
+/**
+ * Runs the call through the PXE simulation, private and public parts, without proving or sending it.
+ * Balance changes come from replaying the call on a `TokenEngine` holding the current balances, while note changes
+ * come from the simulated tx.
+ */
+export async function simulateContractFunction(
+  address: AztecAddress,
+  artifact: ContractArtifact,
+  functionName: string,
+  args: NamedArgs,
+  pxe: PXE,
+  wallet: CompleteAddress,
+): Promise<SimulationResult> {
+  const selectedWallet = await getWallet(wallet, pxe);
+  const contract = await Contract.at(address, artifact, selectedWallet);
+  const functionAbi = artifact.functions.find(f => f.name === functionName)!;
+
+  let tx;
+  try {
+    tx = await contract.methods[functionName](...convertArgs(functionAbi, args)).simulate();
+  } catch (e) {
+    return {
+      success: false,
+      revertReason: describeError(e),
+      errorCode: parseTokenError(e)?.code,
+      balanceChanges: [],
+      createdNotes: 0,
+      nullifiedNotes: 0,
+      spentNotes: [],
+    };
+  }
+
+  // besides the ones of notes, a tx emits a nullifier derived from its request and one per authwit it consumes
+  const nullifiers = tx.data.end.newNullifiers.filter(nullifier => !nullifier.isEmpty()).map(n => n.value);
+  const { balanceChanges, warning } = await getBalanceChanges(contract, pxe, functionName, args, wallet.address);
+  const spentNotes = await findSpentNotes(pxe, address, wallet.address, new Set(nullifiers.map(n => n.toString())));
+  return {
+    success: true,
+    balanceChanges,
+    warning,
+    createdNotes: tx.data.end.newCommitments.filter(commitment => !commitment.isEmpty()).length,
+    nullifiedNotes: spentNotes.length,
+    spentNotes,
+  };
+}
+
+/**
+ * Replays the call on a `TokenEngine` holding the balances of the accounts it names, along with the shield or escrow
+ * it spends, and returns the balances that differ afterwards. As the PXE simulation already checked the call, the
+ * caller is the admin and only minter of the engine, and delegated calls are replayed by the account they act for.
+ */
+async function getBalanceChanges(
+  contract: Contract,
+  pxe: PXE,
+  functionName: string,
+  args: NamedArgs,
+  caller: AztecAddress,
+): Promise<{ balanceChanges: BalanceChange[]; warning?: string }> {
+  // shields are seeded early enough to be reclaimable in the block the call would be mined in
+  const blockNumber = (await pxe.getBlockNumber()) + 1;
+  const engine = new TokenEngine({
+    admin: caller,
+    maxSupply: MAX_U120,
+    blockNumber: blockNumber - SHIELD_RECLAIM_DELAY,
+  });
+  let seeds = 0n;
+  const seedPrivate = (owner: AztecAddress, amount: bigint) => {
+    engine.mintPrivate(caller, amount, ++seeds);
+    engine.redeemShield(caller, owner, amount, seeds);
+  };
+
+  // the shield or escrow first, as seeding them spends the balances they are seeded from
+  switch (functionName) {
+    case 'redeem_shield':
+    case 'cancel_shield':
+    case 'reclaim_shield': {
+      const amount = toBigInt(args.amount);
+      engine.mintPublic(caller, caller, amount);
+      engine.shield(caller, caller, amount, getSecretHash(args), 0n);
+      break;
+    }
+    case 'settle_escrow':
+    case 'settle_escrow_split':
+    case 'refund_escrow': {
+      const randomness = toBigInt(args.randomness);
+      const notes = await pxe.getNotes({
+        contractAddress: contract.address,
+        storageSlot: ESCROWS_STORAGE_SLOT,
+        owner: toAddress(args.owner ?? args.depositor),
+      });
+      const escrow = notes.map(decodeEscrowNote).find(escrow => escrow.randomness.toBigInt() === randomness);
+      if (escrow) {
+        seedPrivate(escrow.depositor, escrow.amount);
+        const { depositor, owner, amount, expiry } = escrow;
+        engine.escrow(depositor, depositor, owner, amount, expiry, 0n, randomness);
+      }
+      break;
+    }
+    case 'transfer_from_public':
+      engine.approvePublic(
+        toAddress(args.from),
+        caller,
+        await contract.methods.allowance_public(toAddress(args.from), caller).view(),
+      );
+      break;
+  }
+  engine.advanceBlocks(SHIELD_RECLAIM_DELAY);
+
+  // private balances are only known for the accounts registered in the PXE, the others start from 0
+  const registered = (await pxe.getRegisteredAccounts()).map(account => account.address);
+  const balances: { owner: AztecAddress; kind: BalanceKind }[] = [];
+  const before = new Map<string, bigint>();
+  for (const owner of getOwners(args, caller)) {
+    const publicBalance: bigint = await contract.methods.balance_of_public(owner).view();
+    engine.mintPublic(caller, owner, publicBalance);
+    before.set(`${owner}:public`, publicBalance);
+    balances.push({ owner, kind: 'public' });
+
+    if (registered.some(account => account.equals(owner))) {
+      const storageSlot = computeBalanceSlot(owner);
+      for (const { note } of await pxe.getNotes({ contractAddress: contract.address, storageSlot, owner })) {
+        seedPrivate(owner, note.items[0].toBigInt());
+      }
+      before.set(`${owner}:private`, engine.balanceOfPrivate(owner));
+    }
+    balances.push({ owner, kind: 'private' });
+  }
+
+  try {
+    replay(engine, functionName, args, caller);
+  } catch (err) {
+    // the engine may read other notes than the PXE did, and spend too few of them when the owner has many
+    if (err instanceof TokenEngineError) {
+      return {
+        balanceChanges: [],
+        warning: `Balance changes unknown, replaying the call failed: ${describeError(err)}`,
+      };
+    }
+    throw err;
+  }
+
+  const changes: BalanceChange[] = [];
+  for (const { owner, kind } of balances) {
+    const after = kind === 'public' ? engine.balanceOfPublic(owner) : engine.balanceOfPrivate(owner);
+    const known = before.get(`${owner}:${kind}`);
+    const amount = after - (known ?? 0n);
+    if (amount !== 0n) {
+      changes.push(known === undefined ? { owner, kind, amount } : { owner, kind, amount, before: known, after });
+    }
+  }
+  return { balanceChanges: changes };
+}
+
+// The caller and the accounts among the arguments of the call, once each.
+function getOwners(args: NamedArgs, caller: AztecAddress) {
+  const owners = [caller];
+  for (const value of Object.values(args).flat()) {
+    if (value?.address !== undefined) {
+      const owner = toAddress(value);
+      if (!owner.equals(ADDRESS_ZERO) && !owners.some(o => o.equals(owner))) {
+        owners.push(owner);
+      }
+    }
+  }
+  return owners;
+}
+
+// Runs the call on `engine`, acting as the account whose balance it moves rather than the caller.
+function replay(engine: TokenEngine, functionName: string, args: NamedArgs, caller: AztecAddress) {
+  const from = args.from === undefined ? caller : toAddress(args.from);
+  const amount = args.amount === undefined ? 0n : toBigInt(args.amount);
+  const payments = (): Payment[] =>
+    args.recipients.map((recipient: any, i: number) => ({
+      recipient: toAddress(recipient),
+      amount: toBigInt(args.amounts[i]),
+    }));
+
+  switch (functionName) {
+    case 'mint_public':
+      return engine.mintPublic(caller, toAddress(args.to), amount);
+    case 'shield':
+      return engine.shield(from, from, amount, getSecretHash(args), 0n);
+    case 'reclaim_shield':
+      return engine.reclaimShield(caller, amount, getSecretHash(args));
+    case 'cancel_shield':
+      return engine.cancelShield(caller, amount, getSecretHash(args));
+    case 'redeem_shield':
+      return engine.redeemShield(caller, toAddress(args.to), amount, getSecretHash(args));
+    case 'transfer_public':
+      return engine.transferPublic(from, from, toAddress(args.to), amount, 0n);
+    case 'transfer_from_public':
+      return engine.transferFromPublic(caller, from, toAddress(args.to), amount);
+    case 'batch_transfer_public':
+      return engine.batchTransferPublic(from, from, payments(), 0n);
+    case 'burn_public':
+      return engine.burnPublic(from, from, amount, 0n);
+    case 'unshield':
+      return engine.unshield(from, from, toAddress(args.to), amount, 0n);
+    case 'shield_private':
+      return engine.shieldPrivate(from, from, toAddress(args.to), amount, 0n);
+    case 'transfer':
+      return engine.transfer(from, from, toAddress(args.to), amount, 0n);
+    case 'transfer_with_memo':
+      return engine.transferWithMemo(from, from, toAddress(args.to), amount, toBigInt(args.memo), 0n);
+    case 'batch_transfer':
+      return engine.batchTransfer(from, from, payments(), 0n);
+    case 'burn':
+      return engine.burn(from, from, amount, 0n);
+    case 'escrow':
+      return engine.escrow(from, from, toAddress(args.owner), amount, toBigInt(args.expiry), 0n);
+    case 'settle_escrow': {
+      const owner = toAddress(args.owner);
+      return engine.settleEscrow(owner, owner, toAddress(args.recipient), toBigInt(args.randomness), 0n);
+    }
+    case 'settle_escrow_split': {
+      const owner = toAddress(args.owner);
+      return engine.settleEscrowSplit(owner, owner, payments(), toBigInt(args.randomness), 0n);
+    }
+    case 'refund_escrow': {
+      const depositor = toAddress(args.depositor);
+      return engine.refundEscrow(depositor, depositor, toBigInt(args.randomness), 0n);
+    }
+  }
+}
+
+// The balance and escrow notes of `owner` whose nullifier is among `nullifiers`.
+async function findSpentNotes(pxe: PXE, tokenAddress: AztecAddress, owner: AztecAddress, nullifiers: Set<string>) {
+  const slots: [SpentNote['type'], Fr][] = [
+    ['balance', computeBalanceSlot(owner)],
+    ['escrow', ESCROWS_STORAGE_SLOT],
+  ];
+  // notes created by the same tx share its lookup
+  const txs = new Map<string, ReturnType<PXE['getTx']>>();
+  const spent: SpentNote[] = [];
+  for (const [type, storageSlot] of slots) {
+    const notes = await pxe.getNotes({ contractAddress: tokenAddress, storageSlot, owner });
+    for (const { note, txHash } of notes) {
+      if (!txs.has(txHash.toString())) {
+        txs.set(txHash.toString(), pxe.getTx(txHash));
+      }
+      const tx = await txs.get(txHash.toString());
+      const candidates = tx ? computeCandidateNullifiers(tokenAddress, note.items[2], tx) : [];
+      if (candidates.some(candidate => nullifiers.has(candidate.toString()))) {
+        spent.push({ type, amount: note.items[0].toBigInt() });
+      }
+    }
+  }
+  return spent;
+}
@@ -0,0 +1,23 @@
+import { TokenContract } from '../contracts/src/artifacts/Token.js';
+import { sendAndWait } from './util.js';
+import { AztecAddress } from '@aztec/aztec.js';
+
+// Minting is bounded by the max supply set at construction, and optionally by a per-minter quota
+// that goes down with each mint. `token` must be bound to the admin's wallet to change quotas.
+
+export async function setMintQuota(token: TokenContract, minter: AztecAddress, quota: bigint) {
+  return await sendAndWait(token.methods.set_mint_quota(minter, quota), 'set_mint_quota');
+}
+
+export async function removeMintQuota(token: TokenContract, minter: AztecAddress) {
+  return await sendAndWait(token.methods.remove_mint_quota(minter), 'remove_mint_quota');
+}
+
+export async function getMaxSupply(token: TokenContract): Promise<bigint> {
+  return await token.methods.max_supply().view();
+}
+
+// What `minter` can still mint, bounded by both its quota and the max supply (0 for non minters).
+export async function getRemainingMintQuota(token: TokenContract, minter: AztecAddress): Promise<bigint> {
+  return await token.methods.remaining_mint_quota(minter).view();
+}
@@ -0,0 +1,724 @@
+import { BATCH_TRANSFER_SIZE, MAX_NOTES_PER_CALL, Payment, SHIELD_RECLAIM_DELAY } from './constants.js';
+import { TokenError, TokenRevertReason, getTokenErrorCode } from './errors.js';
+import { AztecAddress } from '@aztec/aztec.js';
+
+// Thrown by `TokenEngine` when the contract would revert, leaving the state untouched.
+export class TokenEngineError extends TokenError {
+  constructor(reason: TokenRevertReason, functionName: string) {
+    super(getTokenErrorCode(reason), functionName);
+    this.name = 'TokenEngineError';
+  }
+}
+
+// Thrown by the checks of a call, and turned into a `TokenEngineError` naming the function by `transact`.
+class RevertSignal extends Error {
+  constructor(public readonly reason: TokenRevertReason) {
+    super(reason);
+  }
+}
+
+// Largest value of a SafeU120, that amounts, balances and supplies can't exceed.
+export const MAX_U120 = 2n ** 120n - 1n;
+
+// What an authwit lets `caller` do on behalf of the account that created it: a call to `name` with exactly `args`.
+export interface AuthWitAction {
+  name: string;
+  args: (AztecAddress | bigint | boolean)[];
+}
+
+export interface EngineEscrow {
+  randomness: bigint;
+  amount: bigint;
+  owner: AztecAddress;
+  depositor: AztecAddress;
+  expiry: bigint;
+}
+
+export interface EnginePendingShield {
+  amount: bigint;
+  secretHash: bigint;
+}
+
+export interface TokenEngineOptions {
+  admin: AztecAddress;
+  maxSupply: bigint;
+  blockNumber?: number;
+  // source of the randomness of escrow notes, random by default
+  randomness?: () => bigint;
+}
+
+// Addresses are kept as strings so that the state can be cloned.
+interface EngineState {
+  admin: string;
+  pendingAdmin: string;
+  minters: Set<string>;
+  paused: boolean;
+  maxSupply: bigint;
+  totalSupply: bigint;
+  // only minters with a quota have an entry
+  mintQuotas: Map<string, bigint>;
+  publicBalances: Map<string, bigint>;
+  // keyed by owner and spender
+  allowances: Map<string, bigint>;
+  // private notes of each owner, oldest first
+  notes: Map<string, bigint[]>;
+  pendingShields: EnginePendingShield[];
+  // origin and reclaim block of the shields created by `shield`, keyed by shield id
+  shieldOrigins: Map<string, { from: string; reclaimableAt: number }>;
+  reclaimedShields: Set<string>;
+  // keyed by randomness
+  escrows: Map<bigint, { amount: bigint; owner: string; depositor: string; expiry: bigint }>;
+  authWits: Set<string>;
+}
+
+const ADDRESS_ZERO = AztecAddress.fromBigInt(0n).toString();
+
+// The functions whose authwit is an approval stored in the account, the others take a witness from the caller's PXE.
+const PUBLIC_AUTHWIT_FUNCTIONS = new Set(['shield', 'transfer_public', 'batch_transfer_public', 'burn_public']);
+
+function randomField() {
+  const bytes = crypto.getRandomValues(new Uint8Array(31));
+  return bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+}
+
+// Stands in for the hash of the `TransparentNote` that `shield_origins` and `reclaimed_shields` are keyed by.
+function getShieldId(amount: bigint, secretHash: bigint) {
+  return `${amount}:${secretHash}`;
+}
+
+function getAuthWitKey(from: AztecAddress, caller: AztecAddress, { name, args }: AuthWitAction) {
+  return `${from}:${caller}:${name}(${args.map(arg => arg.toString()).join(',')})`;
+}
+
+/**
+ * In-memory implementation of the Token contract, for unit tests and for validating txs before sending them.
+ * Every function takes the `caller` (`msg_sender`) first, then the arguments of the contract function,
+ * and either applies the whole call or throws a `TokenEngineError` with the reason the contract would revert with.
+ * Private notes are read in insertion order, which the PXE doesn't guarantee, so which notes a call spends may differ.
+ */
+export class TokenEngine {
+  private state: EngineState;
+  private randomness: () => bigint;
+  public blockNumber: number;
+
+  constructor({ admin, maxSupply, blockNumber = 1, randomness = randomField }: TokenEngineOptions) {
+    if (maxSupply < 0n || maxSupply > MAX_U120) {
+      throw new TokenEngineError('Value too large for SafeU120', 'constructor');
+    }
+    this.blockNumber = blockNumber;
+    this.randomness = randomness;
+    this.state = {
+      admin: admin.toString(),
+      pendingAdmin: ADDRESS_ZERO,
+      minters: new Set([admin.toString()]),
+      paused: false,
+      maxSupply,
+      totalSupply: 0n,
+      mintQuotas: new Map(),
+      publicBalances: new Map(),
+      allowances: new Map(),
+      notes: new Map(),
+      pendingShields: [],
+      shieldOrigins: new Map(),
+      reclaimedShields: new Set(),
+      escrows: new Map(),
+      authWits: new Set(),
+    };
+  }
+
+  public advanceBlocks(blocks = 1) {
+    this.blockNumber += blocks;
+  }
+
+  // Lets `caller` run `action` once on behalf of `from`, like an authwit added to the account of `from`.
+  public addAuthWit(from: AztecAddress, caller: AztecAddress, action: AuthWitAction) {
+    this.state.authWits.add(getAuthWitKey(from, caller, action));
+  }
+
+  /// Admin ///
+
+  public proposeAdmin(caller: AztecAddress, newAdmin: AztecAddress) {
+    this.transact('propose_admin', state => {
+      this.assertAdmin(state, caller);
+      state.pendingAdmin = newAdmin.toString();
+    });
+  }
+
+  public acceptAdmin(caller: AztecAddress) {
+    this.transact('accept_admin', state => {
+      this.assert(state.pendingAdmin === caller.toString(), 'caller is not pending admin');
+      state.admin = state.pendingAdmin;
+      state.pendingAdmin = ADDRESS_ZERO;
+    });
+  }
+
+  public setMinter(caller: AztecAddress, minter: AztecAddress, approve: boolean) {
+    this.transact('set_minter', state => {
+      this.assertAdmin(state, caller);
+      if (approve) {
+        state.minters.add(minter.toString());
+      } else {
+        state.minters.delete(minter.toString());
+      }
+    });
+  }
+
+  public setMintQuota(caller: AztecAddress, minter: AztecAddress, quota: bigint) {
+    this.transact('set_mint_quota', state => {
+      this.assertAdmin(state, caller);
+      state.mintQuotas.set(minter.toString(), this.safe(quota));
+    });
+  }
+
+  public removeMintQuota(caller: AztecAddress, minter: AztecAddress) {
+    this.transact('remove_mint_quota', state => {
+      this.assertAdmin(state, caller);
+      state.mintQuotas.delete(minter.toString());
+    });
+  }
+
+  public setPaused(caller: AztecAddress, paused: boolean) {
+    this.transact('set_paused', state => {
+      this.assertAdmin(state, caller);
+      state.paused = paused;
+    });
+  }
+
+  /// Public ///
+
+  public mintPublic(caller: AztecAddress, to: AztecAddress, amount: bigint) {
+    this.transact('mint_public', state => {
+      this.assertNotPaused(state);
+      this.assert(state.minters.has(caller.toString()), 'caller is not minter');
+      amount = this.safe(amount);
+      this.addPublic(state, to, amount);
+      this.mint(state, caller, amount);
+    });
+  }
+
+  // The pending shield can then be redeemed by whoever knows the secret behind `secretHash`.
+  public mintPrivate(caller: AztecAddress, amount: bigint, secretHash: bigint) {
+    this.transact('mint_private', state => {
+      this.assertNotPaused(state);
+      this.assert(state.minters.has(caller.toString()), 'caller is not minter');
+      const shieldId = getShieldId(amount, secretHash);
+      this.assert(!state.shieldOrigins.has(shieldId), 'shield already exists');
+      this.assert(!state.reclaimedShields.has(shieldId), 'shield already exists');
+      amount = this.safe(amount);
+      this.mint(state, caller, amount);
+      state.pendingShields.push({ amount, secretHash });
+    });
+  }
+
+  public shield(caller: AztecAddress, from: AztecAddress, amount: bigint, secretHash: bigint, nonce: bigint) {
+    this.transact('shield', state => {
+      this.assertNotPaused(state);
+      this.assertAuthorized(state, caller, from, nonce, { name: 'shield', args: [from, amount, secretHash, nonce] });
+      amount = this.safe(amount);
+      this.subPublic(state, from, amount);
+      const shieldId = getShieldId(amount, secretHash);
+      // The contract counts the pending shields per note hash instead.
+      const isPending = state.pendingShields.some(shield => getShieldId(shield.amount, shield.secretHash) === shieldId);
+      this.assert(!isPending, 'shield already exists');
+      this.assert(!state.reclaimedShields.has(shieldId), 'shield already exists');
+      state.shieldOrigins.set(shieldId, {
+        from: from.toString(),
+        reclaimableAt: this.blockNumber + SHIELD_RECLAIM_DELAY,
+      });
+      state.pendingShields.push({ amount, secretHash });
+    });
+  }
+
+  // Returns a shield to the public balance of the caller that shielded, once the delay has passed.
+  public reclaimShield(caller: AztecAddress, amount: bigint, secretHash: bigint) {
+    this.transact('reclaim_shield', state => {
+      this.assertNotPaused(state);
+      const shieldId = getShieldId(amount, secretHash);
+      const origin = state.shieldOrigins.get(shieldId);
+      this.assert(origin?.from === caller.toString(), 'caller is not the shielder');
+      this.assert(this.blockNumber >= origin!.reclaimableAt, "shield can't be reclaimed yet");
+      state.shieldOrigins.delete(shieldId);
+      state.reclaimedShields.add(shieldId);
+      this.addPublic(state, caller, this.safe(amount));
+    });
+  }
+
+  public transferPublic(caller: AztecAddress, from: AztecAddress, to: AztecAddress, amount: bigint, nonce: bigint) {
+    this.transact('transfer_public', state => {
+      this.assertNotPaused(state);
+      this.assertAuthorized(state, caller, from, nonce, { name: 'transfer_public', args: [from, to, amount, nonce] });
+      amount = this.safe(amount);
+      this.subPublic(state, from, amount);
+      this.addPublic(state, to, amount);
+    });
+  }
+
+  public batchTransferPublic(caller: AztecAddress, from: AztecAddress, payments: Payment[], nonce: bigint) {
+    this.transact('batch_transfer_public', state => {
+      this.assertNotPaused(state);
+      this.assertAuthorized(state, caller, from, nonce, {
+        name: 'batch_transfer_public',
+        args: [from, ...payments.flatMap(({ recipient, amount }) => [recipient, amount]), nonce],
+      });
+      this.subPublic(state, from, this.sumPayments(payments));
+      for (const { recipient, amount } of payments) {
+        if (amount !== 0n) {
+          this.addPublic(state, recipient, amount);
+        }
+      }
+    });
+  }
+
+  // Overwrites the allowance of `spender` over the public balance of the caller.
+  // Revoking, by approving 0, is the only change to allowances allowed while paused.
+  public approvePublic(caller: AztecAddress, spender: AztecAddress, amount: bigint) {
+    this.transact('approve_public', state => {
+      if (amount !== 0n) {
+        this.assertNotPaused(state);
+      }
+      state.allowances.set(`${caller}:${spender}`, this.safe(amount));
+    });
+  }
+
+  public increaseAllowancePublic(caller: AztecAddress, spender: AztecAddress, amount: bigint) {
+    this.transact('increase_allowance_public', state => {
+      this.assertNotPaused(state);
+      const key = `${caller}:${spender}`;
+      state.allowances.set(key, this.add(state.allowances.get(key) ?? 0n, this.safe(amount)));
+    });
+  }
+
+  public decreaseAllowancePublic(caller: AztecAddress, spender: AztecAddress, amount: bigint) {
+    this.transact('decrease_allowance_public', state => {
+      amount = this.safe(amount);
+      const key = `${caller}:${spender}`;
+      const allowance = state.allowances.get(key) ?? 0n;
+      this.assert(allowance >= amount, 'allowance too low');
+      state.allowances.set(key, allowance - amount);
+    });
+  }
+
+  public transferFromPublic(caller: AztecAddress, from: AztecAddress, to: AztecAddress, amount: bigint) {
+    this.transact('transfer_from_public', state => {
+      this.assertNotPaused(state);
+      amount = this.safe(amount);
+      const key = `${from}:${caller}`;
+      const allowance = state.allowances.get(key) ?? 0n;
+      this.assert(allowance >= amount, 'allowance too low');
+      state.allowances.set(key, allowance - amount);
+      this.subPublic(state, from, amount);
+      this.addPublic(state, to, amount);
+    });
+  }
+
+  public burnPublic(caller: AztecAddress, from: AztecAddress, amount: bigint, nonce: bigint) {
+    this.transact('burn_public', state => {
+      this.assertNotPaused(state);
+      this.assertAuthorized(state, caller, from, nonce, { name: 'burn_public', args: [from, amount, nonce] });
+      amount = this.safe(amount);
+      this.subPublic(state, from, amount);
+      state.totalSupply = this.sub(state.totalSupply, amount);
+    });
+  }
+
+  /// Private ///
+  // Private checks run first, then the public calls they enqueue, starting with the pause check.
+
+  public redeemShield(caller: AztecAddress, to: AztecAddress, amount: bigint, secretHash: bigint) {
+    this.transact('redeem_shield', state => {
+      this.popPendingShield(state, amount, secretHash);
+      this.addPrivate(state, to, this.safe(amount));
+      this.assertNotPaused(state);
+      const shieldId = getShieldId(amount, secretHash);
+      this.assert(!state.reclaimedShields.has(shieldId), 'shield was reclaimed');
+      state.shieldOrigins.delete(shieldId);
+    });
+  }
+
+  // Returns a shield to the public balance of the caller that shielded, knowing its secret.
+  public cancelShield(caller: AztecAddress, amount: bigint, secretHash: bigint) {
+    this.transact('cancel_shield', state => {
+      this.popPendingShield(state, amount, secretHash);
+      this.assertNotPaused(state);
+      const shieldId = getShieldId(amount, secretHash);
+      this.assert(state.shieldOrigins.get(shieldId)?.from === caller.toString(), 'caller is not the shielder');
+      state.shieldOrigins.delete(shieldId);
+      this.addPublic(state, caller, this.safe(amount));
+    });
+  }
+
+  public unshield(caller: AztecAddress, from: AztecAddress, to: AztecAddress, amount: bigint, nonce: bigint) {
+    this.transact('unshield', state => {
+      this.assertAuthorized(state, caller, from, nonce, { name: 'unshield', args: [from, to, amount, nonce] });
+      this.subPrivate(state, from, this.safe(amount));
+      this.assertNotPaused(state);
+      this.addPublic(state, to, this.safe(amount));
+    });
+  }
+
+  public shieldPrivate(caller: AztecAddress, from: AztecAddress, to: AztecAddress, amount: bigint, nonce: bigint) {
+    this.transact('shield_private', state => {
+      this.assertAuthorized(state, caller, from, nonce, { name: 'shield_private', args: [from, to, amount, nonce] });
+      this.addPrivate(state, to, this.safe(amount));
+      this.assertNotPaused(state);
+      this.subPublic(state, from, this.safe(amount));
+    });
+  }
+
+  public transfer(caller: AztecAddress, from: AztecAddress, to: AztecAddress, amount: bigint, nonce: bigint) {
+    this.transact('transfer', state => {
+      this.assertAuthorized(state, caller, from, nonce, { name: 'transfer', args: [from, to, amount, nonce] });
+      amount = this.safe(amount);
+      this.subPrivate(state, from, amount);
+      this.addPrivate(state, to, amount);
+      this.assertNotPaused(state);
+    });
+  }
+
+  // The memo only goes to the recipient in an encrypted log, the balances change like for `transfer`.
+  public transferWithMemo(
+    caller: AztecAddress,
+    from: AztecAddress,
+    to: AztecAddress,
+    amount: bigint,
+    memo: bigint,
+    nonce: bigint,
+  ) {
+    this.transact('transfer_with_memo', state => {
+      this.assertAuthorized(state, caller, from, nonce, {
+        name: 'transfer_with_memo',
+        args: [from, to, amount, memo, nonce],
+      });
+      amount = this.safe(amount);
+      this.subPrivate(state, from, amount);
+      this.addPrivate(state, to, amount);
+      this.assertNotPaused(state);
+    });
+  }
+
+  public batchTransfer(caller: AztecAddress, from: AztecAddress, payments: Payment[], nonce: bigint) {
+    this.transact('batch_transfer', state => {
+      this.assertAuthorized(state, caller, from, nonce, {
+        name: 'batch_transfer',
+        args: [from, ...payments.flatMap(({ recipient, amount }) => [recipient, amount]), nonce],
+      });
+      this.subPrivate(state, from, this.sumPayments(payments));
+      for (const { recipient, amount } of payments) {
+        if (amount !== 0n) {
+          this.addPrivate(state, recipient, amount);
+        }
+      }
+      this.assertNotPaused(state);
+    });
+  }
+
+  // Merges the `MAX_NOTES_PER_CALL` smallest notes of `owner` into one.
+  public mergeNotes(caller: AztecAddress, owner: AztecAddress, nonce: bigint) {
+    this.transact('merge_notes', state => {
+      this.assertAuthorized(state, caller, owner, nonce, { name: 'merge_notes', args: [owner, nonce] });
+      const notes = [...(state.notes.get(owner.toString()) ?? [])].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      const merged = notes.slice(0, MAX_NOTES_PER_CALL);
+      const total = merged.reduce((sum, amount) => this.add(sum, amount), 0n);
+      state.notes.set(owner.toString(), notes.slice(MAX_NOTES_PER_CALL));
+      if (total !== 0n) {
+        this.addPrivate(state, owner, total);
+      }
+      this.assertNotPaused(state);
+    });
+  }
+
+  public burn(caller: AztecAddress, from: AztecAddress, amount: bigint, nonce: bigint) {
+    this.transact('burn', state => {
+      this.assertAuthorized(state, caller, from, nonce, { name: 'burn', args: [from, amount, nonce] });
+      amount = this.safe(amount);
+      this.subPrivate(state, from, amount);
+      this.assertNotPaused(state);
+      state.totalSupply = this.sub(state.totalSupply, amount);
+    });
+  }
+
+  // Returns the randomness of the escrow note, that identifies it to settle or refund it.
+  // Replaying a mined call passes the randomness its note got, the engine draws one otherwise.
+  public escrow(
+    caller: AztecAddress,
+    from: AztecAddress,
+    owner: AztecAddress,
+    amount: bigint,
+    expiry: bigint,
+    nonce: bigint,
+    randomness?: bigint,
+  ): bigint {
+    return this.transact('escrow', state => {
+      this.assertAuthorized(state, caller, from, nonce, { name: 'escrow', args: [from, owner, amount, expiry, nonce] });
+      amount = this.safe(amount);
+      this.subPrivate(state, from, amount);
+      randomness = randomness ?? this.randomness();
+      state.escrows.set(randomness, { amount, owner: owner.toString(), depositor: from.toString(), expiry });
+      this.assertNotPaused(state);
+      return randomness;
+    });
+  }
+
+  public settleEscrow(
+    caller: AztecAddress,
+    owner: AztecAddress,
+    recipient: AztecAddress,
+    randomness: bigint,
+    nonce: bigint,
+  ) {
+    this.transact('settle_escrow', state => {
+      this.assertAuthorized(state, caller, owner, nonce, {
+        name: 'settle_escrow',
+        args: [owner, recipient, randomness, nonce],
+      });
+      const escrow = state.escrows.get(randomness);
+      this.assert(escrow?.owner === owner.toString(), 'escrow does not exist');
+      state.escrows.delete(randomness);
+      this.addPrivate(state, recipient, escrow!.amount);
+      this.assertNotPaused(state);
+    });
+  }
+
+  // Returns the randomness of the escrow holding what is not paid out, 0 if nothing is left.
+  // Like for `escrow`, replaying a mined call passes the randomness of the remainder note.
+  public settleEscrowSplit(
+    caller: AztecAddress,
+    owner: AztecAddress,
+    payouts: Payment[],
+    randomness: bigint,
+    nonce: bigint,
+    remainderRandomness?: bigint,
+  ): bigint {
+    return this.transact('settle_escrow_split', state => {
+      this.assertAuthorized(state, caller, owner, nonce, {
+        name: 'settle_escrow_split',
+        args: [owner, ...payouts.flatMap(({ recipient, amount }) => [recipient, amount]), randomness, nonce],
+      });
+      const escrow = state.escrows.get(randomness);
+      this.assert(escrow?.owner === owner.toString(), 'escrow does not exist');
+      state.escrows.delete(randomness);
+
+      let paid = 0n;
+      for (const { recipient, amount } of payouts) {
+        if (amount !== 0n) {
+          this.addPrivate(state, recipient, this.safe(amount));
+          paid = this.add(paid, amount);
+        }
+      }
+      this.assert(escrow!.amount >= paid, 'escrow amount too low');
+
+      let remainder = 0n;
+      if (escrow!.amount > paid) {
+        remainder = remainderRandomness ?? this.randomness();
+        state.escrows.set(remainder, { ...escrow!, amount: escrow!.amount - paid });
+      }
+      this.assertNotPaused(state);
+      return remainder;
+    });
+  }
+
+  public refundEscrow(caller: AztecAddress, depositor: AztecAddress, randomness: bigint, nonce: bigint) {
+    this.transact('refund_escrow', state => {
+      this.assertAuthorized(state, caller, depositor, nonce, {
+        name: 'refund_escrow',
+        args: [depositor, randomness, nonce],
+      });
+      const escrow = state.escrows.get(randomness);
+      this.assert(escrow?.depositor === depositor.toString(), 'escrow does not exist');
+      state.escrows.delete(randomness);
+      this.addPrivate(state, depositor, escrow!.amount);
+      this.assertNotPaused(state);
+      this.assert(BigInt(this.blockNumber) >= escrow!.expiry, 'escrow has not expired');
+    });
+  }
+
+  /// Views ///
+
+  public get admin() {
+    return AztecAddress.fromString(this.state.admin);
+  }
+
+  public get pendingAdmin() {
+    return AztecAddress.fromString(this.state.pendingAdmin);
+  }
+
+  public get paused() {
+    return this.state.paused;
+  }
+
+  public get totalSupply() {
+    return this.state.totalSupply;
+  }
+
+  public get maxSupply() {
+    return this.state.maxSupply;
+  }
+
+  public isMinter(minter: AztecAddress) {
+    return this.state.minters.has(minter.toString());
+  }
+
+  // Capped by the supply left, and 0 for accounts that are not minters, like the `remaining_mint_quota` view.
+  public remainingMintQuota(minter: AztecAddress) {
+    if (!this.isMinter(minter)) {
+      return 0n;
+    }
+    const remainingSupply = this.state.maxSupply - this.state.totalSupply;
+    const quota = this.state.mintQuotas.get(minter.toString());
+    return quota !== undefined && quota < remainingSupply ? quota : remainingSupply;
+  }
+
+  public balanceOfPublic(owner: AztecAddress) {
+    return this.state.publicBalances.get(owner.toString()) ?? 0n;
+  }
+
+  public balanceOfPrivate(owner: AztecAddress) {
+    return this.getNotes(owner).reduce((sum, amount) => sum + amount, 0n);
+  }
+
+  // Amounts of the private notes of `owner`, oldest first.
+  public getNotes(owner: AztecAddress) {
+    return [...(this.state.notes.get(owner.toString()) ?? [])];
+  }
+
+  public allowancePublic(owner: AztecAddress, spender: AztecAddress) {
+    return this.state.allowances.get(`${owner}:${spender}`) ?? 0n;
+  }
+
+  public getPendingShields(): EnginePendingShield[] {
+    return this.state.pendingShields.map(shield => ({ ...shield }));
+  }
+
+  public getEscrow(randomness: bigint): EngineEscrow | undefined {
+    const escrow = this.state.escrows.get(randomness);
+    return (
+      escrow && {
+        ...escrow,
+        randomness,
+        owner: AztecAddress.fromString(escrow.owner),
+        depositor: AztecAddress.fromString(escrow.depositor),
+      }
+    );
+  }
+
+  // Runs `call` on a copy of the state, which replaces the state only if nothing was thrown.
+  private transact<T>(functionName: string, call: (state: EngineState) => T): T {
+    const state = structuredClone(this.state);
+    try {
+      const result = call(state);
+      this.state = state;
+      return result;
+    } catch (err) {
+      if (err instanceof RevertSignal) {
+        throw new TokenEngineError(err.reason, functionName);
+      }
+      throw err;
+    }
+  }
+
+  private assert(condition: boolean, reason: TokenRevertReason) {
+    if (!condition) {
+      throw new RevertSignal(reason);
+    }
+  }
+
+  private assertAdmin(state: EngineState, caller: AztecAddress) {
+    this.assert(state.admin === caller.toString(), 'caller is not admin');
+  }
+
+  private assertNotPaused(state: EngineState) {
+    this.assert(!state.paused, 'token is paused');
+  }
+
+  // Acting for another account takes an authwit from it, acting for oneself takes a zero nonce.
+  private assertAuthorized(
+    state: EngineState,
+    caller: AztecAddress,
+    from: AztecAddress,
+    nonce: bigint,
+    action: AuthWitAction,
+  ) {
+    if (!from.equals(caller)) {
+      const key = getAuthWitKey(from, caller, action);
+      this.assert(
+        state.authWits.has(key),
+        PUBLIC_AUTHWIT_FUNCTIONS.has(action.name)
+          ? 'Message not authorized by account'
+          : 'Unknown auth witness for message hash',
+      );
+      state.authWits.delete(key);
+    } else {
+      this.assert(nonce === 0n, 'invalid nonce');
+    }
+  }
+
+  private safe(value: bigint) {
+    this.assert(value >= 0n && value <= MAX_U120, 'Value too large for SafeU120');
+    return value;
+  }
+
+  private add(a: bigint, b: bigint) {
+    this.assert(a + b <= MAX_U120, 'attempt to add with overflow');
+    return a + b;
+  }
+
+  private sub(a: bigint, b: bigint) {
+    this.assert(a >= b, 'attempt to subtract with underflow');
+    return a - b;
+  }
+
+  private sumPayments(payments: Payment[]) {
+    if (payments.length > BATCH_TRANSFER_SIZE) {
+      throw new Error(`At most ${BATCH_TRANSFER_SIZE} payments per batch`);
+    }
+    return payments.reduce((total, { amount }) => this.add(total, this.safe(amount)), 0n);
+  }
+
+  private mint(state: EngineState, minter: AztecAddress, amount: bigint) {
+    const supply = this.add(state.totalSupply, amount);
+    this.assert(state.maxSupply >= supply, 'max supply exceeded');
+    const quota = state.mintQuotas.get(minter.toString());
+    if (quota !== undefined) {
+      this.assert(quota >= amount, 'mint quota exceeded');
+      state.mintQuotas.set(minter.toString(), quota - amount);
+    }
+    state.totalSupply = supply;
+  }
+
+  private addPublic(state: EngineState, owner: AztecAddress, amount: bigint) {
+    state.publicBalances.set(owner.toString(), this.add(state.publicBalances.get(owner.toString()) ?? 0n, amount));
+  }
+
+  private subPublic(state: EngineState, owner: AztecAddress, amount: bigint) {
+    state.publicBalances.set(owner.toString(), this.sub(state.publicBalances.get(owner.toString()) ?? 0n, amount));
+  }
+
+  private addPrivate(state: EngineState, owner: AztecAddress, amount: bigint) {
+    state.notes.set(owner.toString(), [...(state.notes.get(owner.toString()) ?? []), amount]);
+  }
+
+  // Like `BalanceSet::sub`: spends notes among the first `MAX_NOTES_PER_CALL` until they cover `amount`, and adds the change.
+  private subPrivate(state: EngineState, owner: AztecAddress, amount: bigint) {
+    const notes = state.notes.get(owner.toString()) ?? [];
+    const spent: number[] = [];
+    let sum = 0n;
+    for (let i = 0; i < Math.min(notes.length, MAX_NOTES_PER_CALL) && sum < amount; i++) {
+      spent.push(i);
+      sum = this.add(sum, notes[i]);
+    }
+    this.assert(sum >= amount, 'Balance too low');
+    state.notes.set(
+      owner.toString(),
+      notes.filter((_, i) => !spent.includes(i)),
+    );
+    this.addPrivate(state, owner, sum - amount);
+  }
+
+  private popPendingShield(state: EngineState, amount: bigint, secretHash: bigint) {
+    const index = state.pendingShields.findIndex(
+      shield => shield.amount === amount && shield.secretHash === secretHash,
+    );
+    this.assert(index !== -1, 'shield does not exist');
+    state.pendingShields.splice(index, 1);
+  }
+}
@@ -1,4 +1,13 @@
-import { AccountWallet, Fr, getSandboxAccountsWallets } from '@aztec/aztec.js';
+import { parseTokenError } from './errors.js';
+import {
+  AccountWallet,
+  ContractFunctionInteraction,
+  FieldsOf,
+  Fr,
+  TxReceipt,
+  TxStatus,
+  getSandboxAccountsWallets,
+} from '@aztec/aztec.js';
 import { FunctionArtifact, encodeArguments } from '@aztec/foundation/abi';
 import { CompleteAddress, PXE } from '@aztec/types';
 
@@ -16,7 +25,7 @@ function convertBasicArg(paramType: string, value: any) {
 export function convertArgs(functionAbi: FunctionArtifact, args: any): Fr[] {
   const untypedArgs = functionAbi.parameters
     .map(param => {
-      if (['field', 'array', 'boolean'].includes(param.type.kind)) {
+      if (['field', 'array', 'boolean', 'integer'].includes(param.type.kind)) {
         return convertBasicArg(param.type.kind, args[param.name]);
       } else if (param.type.kind === 'struct') {
         const structParams = param.type.fields;
@@ -49,3 +58,26 @@ export async function getWallet(account: CompleteAddress, pxe: PXE): Promise<Acc
   }
   return selectedWallet;
 }
+
+export function assertMined(receipt: FieldsOf<TxReceipt>, functionName: string) {
+  if (receipt.status !== TxStatus.MINED) {
+    throw new Error(`${functionName} tx ${receipt.txHash} was not mined (${receipt.status})`);
+  }
+}
+
+// Sends the call and waits for it to be mined, turning the reverts of the token into `TokenError`s.
+export async function sendAndWait(interaction: ContractFunctionInteraction, functionName: string) {
+  const receipt = await interaction
+    .send()
+    .wait()
+    .catch(err => {
+      throw parseTokenError(err, functionName) ?? err;
+    });
+  assertMined(receipt, functionName);
+  return receipt;
+}
+
+// Pads `values` with `filler` up to the length of a fixed size array argument.
+export function padArray<T>(values: T[], length: number, filler: T): T[] {
+  return [...values, ...Array(length - values.length).fill(filler)];
+}
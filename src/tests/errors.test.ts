@@ -0,0 +1,47 @@
+import { TOKEN_ERRORS, TokenError, describeError, parseTokenError } from '../scripts/errors.js';
+import { TokenEngineError } from '../scripts/token_engine.js';
+import { describe, expect, it } from '@jest/globals';
+
+// Runs without a sandbox, the errors are the ones the simulator wraps the assertions in.
+describe('TokenError', () => {
+  const SIMULATOR_ERROR = new Error(
+    "(JSON-RPC PROPAGATED) Assertion failed: Balance too low 'minuend.ge(subtrahend) == true'",
+  );
+
+  it('parses the assertion wrapped in a simulator error', () => {
+    const error = parseTokenError(SIMULATOR_ERROR, 'transfer');
+    expect(error).toBeInstanceOf(TokenError);
+    expect(error).toMatchObject({ code: 'INSUFFICIENT_BALANCE', reason: 'Balance too low', functionName: 'transfer' });
+    expect(error?.cause).toBe(SIMULATOR_ERROR);
+  });
+
+  it('tells apart reasons that share words', () => {
+    expect(parseTokenError(new Error('Assertion failed: caller is not pending admin'))?.code).toEqual(
+      'NOT_PENDING_ADMIN',
+    );
+    expect(parseTokenError(new Error('Assertion failed: caller is not admin'))?.code).toEqual('NOT_ADMIN');
+  });
+
+  it('parses the missing witness of a private authwit', () => {
+    const error = new Error('Unknown auth witness for message hash 0x0badc0de');
+    expect(parseTokenError(error, 'transfer')).toMatchObject({ code: 'AUTHWIT_NOT_FOUND', functionName: 'transfer' });
+  });
+
+  it('leaves other errors alone', () => {
+    expect(parseTokenError(new Error('Timeout awaiting isMined'))).toBeUndefined();
+    expect(describeError(new Error('Timeout awaiting isMined'))).toEqual('Timeout awaiting isMined');
+  });
+
+  it('describes reverts for users', () => {
+    expect(describeError(SIMULATOR_ERROR, 'transfer')).toEqual(
+      `transfer reverted: ${TOKEN_ERRORS.INSUFFICIENT_BALANCE.description}`,
+    );
+  });
+
+  it('is what the engine throws', () => {
+    const error = new TokenEngineError('invalid nonce', 'unshield');
+    expect(error).toBeInstanceOf(TokenError);
+    expect(parseTokenError(error)).toBe(error);
+    expect(error.code).toEqual('INVALID_NONCE');
+  });
+});
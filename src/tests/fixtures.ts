@@ -0,0 +1,178 @@
+import { TokenContract } from '../contracts/artifacts/Token.js';
+import { TokenMetadata, encodeShortString } from '../scripts/metadata.js';
+import { ShieldManager } from '../scripts/shield_manager.js';
+import { setMintQuota } from '../scripts/supply.js';
+import { sendAndWait } from '../scripts/util.js';
+import { TokenSimulator } from './token_simulator.js';
+import {
+  AccountWalletWithPrivateKey,
+  AztecAddress,
+  DebugLogger,
+  PXE,
+  createAccount,
+  createPXEClient,
+  getSandboxAccountsWallets,
+  initAztecJs,
+  waitForSandbox,
+} from '@aztec/aztec.js';
+
+// assumes sandbox is running locally, which this script does not trigger
+// as well as anvil.  anvil can be started with yarn test:integration
+export const setupSandbox = async () => {
+  const { PXE_URL = 'http://localhost:8080' } = process.env;
+  const pxe = createPXEClient(PXE_URL);
+  await waitForSandbox(pxe);
+  await initAztecJs();
+  return pxe;
+};
+
+// The sandbox accounts, shared by every suite, along with the PXE they are registered in.
+export interface SandboxFixture {
+  pxe: PXE;
+  wallets: AccountWalletWithPrivateKey[];
+}
+
+export async function setupSandboxFixture(): Promise<SandboxFixture> {
+  const pxe = await setupSandbox();
+  const wallets: AccountWalletWithPrivateKey[] = await getSandboxAccountsWallets(pxe);
+  return { pxe, wallets };
+}
+
+// Accounts that no other suite knows about, deployed one after the other.
+export async function createAccounts(pxe: PXE, count: number) {
+  const accounts: AccountWalletWithPrivateKey[] = [];
+  for (let i = 0; i < count; i++) {
+    accounts.push(await createAccount(pxe));
+  }
+  return accounts;
+}
+
+export interface SeededBalance {
+  account: AccountWalletWithPrivateKey;
+  public?: bigint;
+  private?: bigint;
+}
+
+export interface TokenFixtureOptions {
+  // deploys the token, and is its admin and first minter
+  admin: AccountWalletWithPrivateKey;
+  maxSupply: bigint;
+  metadata: TokenMetadata;
+  // approved as minters on top of the admin, with a quota if one is given
+  minters: { minter: AccountWalletWithPrivateKey; quota?: bigint }[];
+  // minted by the admin right after the deployment
+  balances: SeededBalance[];
+  // the accounts whose balances `TokenSimulator.check` compares, every sandbox account by default
+  accounts?: AztecAddress[];
+}
+
+export const DEFAULT_MAX_SUPPLY = 10n ** 18n;
+
+export const DEFAULT_METADATA: TokenMetadata = { name: 'Token', symbol: 'TKN', decimals: 6 };
+
+/**
+ * A deployed token along with the simulator tracking it, for e2e suites.
+ * Mints go through the helpers so that the simulator follows them, and `reset` deploys a fresh instance
+ * with the same options, so that a suite can start from a known state whatever ran before it.
+ */
+export class TokenFixture {
+  private constructor(
+    private sandbox: SandboxFixture,
+    private logger: DebugLogger,
+    private options: TokenFixtureOptions,
+    public token: TokenContract,
+    public sim: TokenSimulator,
+  ) {}
+
+  public static async deploy(
+    sandbox: SandboxFixture,
+    logger: DebugLogger,
+    options: Partial<TokenFixtureOptions> = {},
+  ): Promise<TokenFixture> {
+    const fullOptions: TokenFixtureOptions = {
+      admin: sandbox.wallets[0],
+      maxSupply: DEFAULT_MAX_SUPPLY,
+      metadata: DEFAULT_METADATA,
+      minters: [],
+      balances: [],
+      ...options,
+    };
+    const fixture = new TokenFixture(
+      sandbox,
+      logger,
+      fullOptions,
+      ...(await TokenFixture.setup(sandbox, logger, fullOptions)),
+    );
+    await fixture.seed();
+    return fixture;
+  }
+
+  private static async setup(sandbox: SandboxFixture, logger: DebugLogger, options: TokenFixtureOptions) {
+    const { admin, maxSupply, metadata, accounts } = options;
+    const token = await TokenContract.deploy(
+      admin,
+      admin.getAddress(),
+      maxSupply,
+      encodeShortString(metadata.name),
+      encodeShortString(metadata.symbol),
+      metadata.decimals,
+    )
+      .send()
+      .deployed();
+    logger(`Token deployed to ${token.address}`);
+
+    const sim = new TokenSimulator(
+      token,
+      logger,
+      accounts ?? sandbox.wallets.map(wallet => wallet.getAddress()),
+      admin.getAddress(),
+      maxSupply,
+    );
+    return [token, sim] as const;
+  }
+
+  // Replaces the token and the simulator with fresh ones, deployed and seeded from the same options.
+  public async reset() {
+    [this.token, this.sim] = await TokenFixture.setup(this.sandbox, this.logger, this.options);
+    await this.seed();
+  }
+
+  public get admin() {
+    return this.options.admin;
+  }
+
+  public async mintPublic(to: AccountWalletWithPrivateKey, amount: bigint, minter = this.options.admin) {
+    await sendAndWait(this.token.withWallet(minter).methods.mint_public(to.getAddress(), amount), 'mint_public');
+    this.sim.mintPublic(minter.getAddress(), to.getAddress(), amount);
+  }
+
+  // Mints to a pending shield and redeems it to `to`.
+  public async mintPrivate(to: AccountWalletWithPrivateKey, amount: bigint, minter = this.options.admin) {
+    const shieldManager = new ShieldManager(this.token, minter);
+    const { secretHash } = await shieldManager.mintPrivate(amount);
+    this.sim.mintPrivate(minter.getAddress(), amount, secretHash.toBigInt());
+    await shieldManager.redeem(secretHash, to.getAddress());
+    this.sim.redeemShield(minter.getAddress(), to.getAddress(), amount, secretHash.toBigInt());
+  }
+
+  private async seed() {
+    const { admin, minters, balances } = this.options;
+    const adminToken = this.token.withWallet(admin);
+    for (const { minter, quota } of minters) {
+      await sendAndWait(adminToken.methods.set_minter(minter.getAddress(), true), 'set_minter');
+      this.sim.setMinter(admin.getAddress(), minter.getAddress(), true);
+      if (quota !== undefined) {
+        await setMintQuota(adminToken, minter.getAddress(), quota);
+        this.sim.setMintQuota(admin.getAddress(), minter.getAddress(), quota);
+      }
+    }
+    for (const { account, public: publicAmount, private: privateAmount } of balances) {
+      if (publicAmount) {
+        await this.mintPublic(account, publicAmount);
+      }
+      if (privateAmount) {
+        await this.mintPrivate(account, privateAmount);
+      }
+    }
+  }
+}
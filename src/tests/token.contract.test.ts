@@ -6,35 +6,73 @@ import {
   PXE,
   TxHash,
   TxStatus,
-  computeAuthWitMessageHash,
   computeMessageSecretHash,
   createAccount,
-  createPXEClient,
-  getSandboxAccountsWallets,
-  initAztecJs,
-  waitForSandbox
 } from '@aztec/aztec.js';
 import { AztecAddress, CompleteAddress } from '@aztec/circuits.js';
 import { DebugLogger, createDebugLogger } from '@aztec/foundation/log';
 import { ExtendedNote } from '@aztec/types';
 import { afterEach, beforeAll, expect, jest } from '@jest/globals';
 import { TokenContract } from '../contracts/artifacts/Token.js';
+import {
+  allowancePublic,
+  approvePublic,
+  decreaseAllowancePublic,
+  increaseAllowancePublic,
+  revokePublic,
+  transferFromPublic,
+} from '../scripts/allowance.js';
+import { formatAmount, parseAmount } from '../scripts/amount.js';
+import { TokenAuthWits } from '../scripts/authwit.js';
+import { batchTransfer, batchTransferPublic, chunkPayments } from '../scripts/batch_transfer.js';
+import { BATCH_TRANSFER_SIZE, MAX_NOTES_PER_CALL, Payment, SHIELD_RECLAIM_DELAY } from '../scripts/constants.js';
+import { TokenErrorCode, parseTokenError } from '../scripts/errors.js';
+import { Escrow, EscrowClient, listEscrows } from '../scripts/escrow_client.js';
+import { filterTokenEvents, getTokenEvents } from '../scripts/events.js';
+import { HistoryService, historyToCSV, historyToJSON } from '../scripts/history.js';
+import { getMemos, getReceivedPayments, transferWithMemo } from '../scripts/memo.js';
+import { decodeShortString, encodeShortString, getTokenMetadata } from '../scripts/metadata.js';
+import { NoteMaintenance } from '../scripts/note_maintenance.js';
+import { listPrivateNotes } from '../scripts/pagination.js';
+import { isPaused, pause, unpause } from '../scripts/pause.js';
+import { acceptAdmin, getAdmin, getMinters, getPendingAdmin, proposeAdmin } from '../scripts/roles.js';
+import { ShieldManager, ShieldRecord } from '../scripts/shield_manager.js';
+import { simulateContractFunction } from '../scripts/simulate_contract_function.js';
+import { getRemainingMintQuota, removeMintQuota, setMintQuota } from '../scripts/supply.js';
+import { TokenIndexer } from '../indexer/indexer.js';
+import { createIndexerServer } from '../indexer/server.js';
+import { InMemoryIndexerStore } from '../indexer/store.js';
+import { runTokenCli } from '../cli/index.js';
+import {
+  DEFAULT_MAX_SUPPLY,
+  DEFAULT_METADATA,
+  SandboxFixture,
+  TokenFixture,
+  createAccounts,
+  setupSandboxFixture,
+} from './fixtures.js';
+import { TokenFuzzer } from './token_fuzzer.js';
 import { TokenSimulator } from './token_simulator.js';
 
-// assumes sandbox is running locally, which this script does not trigger
-// as well as anvil.  anvil can be started with yarn test:integration
-const setupSandbox = async () => {
-  const { PXE_URL = 'http://localhost:8080' } = process.env;
-  const pxe = createPXEClient(PXE_URL);
-  await waitForSandbox(pxe);
-  await initAztecJs();
-  return pxe;
-};
-
 const TIMEOUT = 100_000;
 
+// Escrows that are not meant to be refunded during the tests
+const FAR_EXPIRY = 2n ** 64n;
+
+const MAX_SUPPLY = DEFAULT_MAX_SUPPLY;
+
+const METADATA = DEFAULT_METADATA;
+
 const ADDRESS_ZERO = AztecAddress.fromBigInt(0n);
 
+// Expects the call to revert with the token error `code`, whatever the simulator wraps it in.
+const expectRevert = (call: Promise<unknown>, code: TokenErrorCode) =>
+  expect(
+    call.catch(err => {
+      throw parseTokenError(err) ?? err;
+    }),
+  ).rejects.toMatchObject({ code });
+
 describe('e2e_token_contract', () => {
   jest.setTimeout(TIMEOUT);
 
@@ -42,25 +80,32 @@ describe('e2e_token_contract', () => {
   let logger: DebugLogger;
 
   let asset: TokenContract;
+  let escrowClient: EscrowClient;
+  let authWits: TokenAuthWits;
 
   let tokenSim: TokenSimulator;
   let pxe: PXE;
 
+  let sandbox: SandboxFixture;
+  let fixture: TokenFixture;
+
+  // Points the suites at the token of the fixture, once deployed and after every reset.
+  const useToken = () => {
+    asset = fixture.token;
+    tokenSim = fixture.sim;
+    escrowClient = new EscrowClient(asset, pxe);
+    authWits = new TokenAuthWits(asset);
+  };
+
   beforeAll(async () => {
     logger = createDebugLogger('box:token_contract_test');
-    pxe = await setupSandbox();
-
-    wallets = await getSandboxAccountsWallets(pxe);
+    sandbox = await setupSandboxFixture();
+    ({ pxe, wallets } = sandbox);
 
     console.log(`Wallets: ${wallets.map(w => w.getAddress().toString())}`);
 
-    asset = await TokenContract.deploy(wallets[0], wallets[0].getAddress()).send().deployed();
-    logger(`Token deployed to ${asset.address}`);
-    tokenSim = new TokenSimulator(
-      asset,
-      logger,
-      wallets.map(a => a.getAddress()),
-    );
+    fixture = await TokenFixture.deploy(sandbox, logger, { maxSupply: MAX_SUPPLY, metadata: METADATA });
+    useToken();
 
     expect(await asset.methods.admin().view()).toBe(wallets[0].getAddress().toBigInt());
   }, 100_000);
@@ -69,6 +114,68 @@ describe('e2e_token_contract', () => {
     await tokenSim.check();
   }, TIMEOUT);
 
+  // Replays on the simulator an escrow mined by `caller`, with the randomness its note got.
+  const replayEscrow = (caller: AztecAddress, escrow: Escrow, nonce = 0n) =>
+    tokenSim.escrow(
+      caller,
+      escrow.depositor,
+      escrow.owner,
+      escrow.amount,
+      escrow.expiry,
+      nonce,
+      escrow.randomness.toBigInt(),
+    );
+
+  describe('Metadata', () => {
+    it('reads the metadata set at construction', async () => {
+      expect(await getTokenMetadata(asset)).toEqual(METADATA);
+    });
+
+    it('formats and parses amounts using the token decimals', async () => {
+      const { decimals, symbol } = await getTokenMetadata(asset);
+
+      expect(parseAmount('12.5 TKN', decimals, symbol)).toEqual(12_500_000n);
+      expect(parseAmount('12', decimals, symbol)).toEqual(12_000_000n);
+      expect(formatAmount(12_500_000n, decimals, symbol)).toEqual('12.5 TKN');
+      expect(formatAmount(1n, decimals)).toEqual('0.000001');
+      expect(formatAmount(-1_500_000n, decimals, symbol)).toEqual('-1.5 TKN');
+      expect(formatAmount(-1n, decimals)).toEqual('-0.000001');
+      expect(formatAmount(-12_000_000n, decimals)).toEqual('-12');
+
+      expect(() => parseAmount('12.5 ETH', decimals, symbol)).toThrowError('expected an amount in TKN');
+      expect(() => parseAmount('0.0000001', decimals, symbol)).toThrowError('the token has 6 decimals');
+    });
+  });
+
+  describe('Token fixture', () => {
+    it('redeploys the seeded minters and balances on reset', async () => {
+      const [admin, minter, other] = wallets;
+      const [quota, publicAmount, privateAmount] = [50n, 30n, 20n];
+      const seeded = await TokenFixture.deploy(sandbox, logger, {
+        minters: [{ minter, quota }, { minter: other }],
+        balances: [{ account: minter, public: publicAmount, private: privateAmount }],
+      });
+      const expectSeeded = async () => {
+        const { token, sim } = seeded;
+        expect(await getMinters(pxe, token.address)).toEqual([admin, minter, other].map(w => w.getAddress()));
+        expect(await getRemainingMintQuota(token, minter.getAddress())).toEqual(quota);
+        expect(await token.methods.balance_of_public(minter.getAddress()).view()).toEqual(publicAmount);
+        expect(await token.methods.balance_of_private(minter.getAddress()).view()).toEqual(privateAmount);
+        await sim.check();
+      };
+      await expectSeeded();
+
+      await seeded.mintPublic(other, quota, minter);
+      await seeded.token.withWallet(admin).methods.set_minter(other.getAddress(), false).send().wait();
+      seeded.sim.setMinter(admin.getAddress(), other.getAddress(), false);
+      const address = seeded.token.address;
+
+      await seeded.reset();
+      expect(seeded.token.address).not.toEqual(address);
+      await expectSeeded();
+    });
+  });
+
   describe('Escrow', () => {
     let amount: bigint;
   
@@ -81,29 +188,24 @@ describe('e2e_token_contract', () => {
     
     beforeAll(async () => {
       from = wallets[0].getCompleteAddress();
-      participant1 = await createAccount(pxe);
-      participant2 = await createAccount(pxe);
-      participant3 = await createAccount(pxe);
-      agent = await createAccount(pxe);
+      [participant1, participant2, participant3, agent] = await createAccounts(pxe, 4);
 
-      await mintTokenFor(wallets[0], wallets[0], 10000n);
+      await fixture.mintPrivate(wallets[0], 10000n);
     });
     
     describe('Escrow flow', () => {
   
       let balance: bigint;
       let amount: bigint;
-      let randomness: bigint;
+      let randomness: Fr;
       
       it('escrow', async () => {
         balance = await asset.methods.balance_of_private(from.address).view();
         amount = balance / 2n;
         expect(amount).toBeGreaterThan(0n);
   
-        const tx = asset.methods.escrow(from.address, agent.getAddress(), amount, 0).send();
-        const receipt = await tx.wait();
-        expect(receipt.status).toBe(TxStatus.MINED);
-        tokenSim.escrow(from.address, amount);
+        const escrow = await escrowClient.escrow(from.address, agent.getAddress(), amount, FAR_EXPIRY);
+        replayEscrow(from.address, escrow);
       });
       
       it('takes balance form the user', async () => {
@@ -112,90 +214,117 @@ describe('e2e_token_contract', () => {
       });
 
       it('created the correct notes for the agent', async () => {
-        const filter = { contractAddress: asset.address, storageSlot: new Fr(7) };
-
-        // Transform all of the pxe getNotes call into a promise.all statement:
-        const escrowsAgent = await pxe.getNotes({owner: agent.getAddress(), ...filter});
+        const escrowsAgent = await escrowClient.getEscrowNotes(agent.getAddress());
 
         expect(escrowsAgent.length).toBe(1);
 
-        randomness = escrowsAgent[0].note.items[2].toBigInt();
+        randomness = escrowsAgent[0].randomness;
         
         // Amount is correct
-        expect(escrowsAgent[0].note.items[0].toBigInt()).toEqual(amount);
+        expect(escrowsAgent[0].amount).toEqual(amount);
         // Agent is correct
-        expect(escrowsAgent[0].note.items[1].toBigInt()).toEqual(agent.getAddress().toBigInt());
+        expect(escrowsAgent[0].owner).toEqual(agent.getAddress());
         // Randomness is not 0
-        expect(randomness).not.toEqual(0n); 
+        expect(randomness.isZero()).toBe(false);
       });
 
-      it.skip('creates the correct notes after broadcasting', async () => {
-        const filter = { contractAddress: asset.address, storageSlot: new Fr(7) };
+      it('settle_escrow', async () => {
+        const escrows = await escrowClient.withWallet(wallets[0]).getEscrows();
+        const participant1Balance = await asset.methods.balance_of_private(participant1.getAddress()).view();
 
-        let escrowsParticipant1 = await pxe.getNotes({ owner: participant1.getAddress(), ...filter });
+        const randomness = escrows[0].randomness;
+        const receipt = await escrowClient
+          .withWallet(agent)
+          .settle(agent.getAddress(), participant1.getAddress(), randomness);
+        expect(receipt.status).toBe(TxStatus.MINED);
+        const owner = agent.getAddress();
+        tokenSim.settleEscrow(owner, owner, participant1.getAddress(), randomness.toBigInt(), 0n);
+  
+        const newBalance = await asset.methods.balance_of_private(participant1.getAddress()).view();
+        expect(newBalance).toEqual(participant1Balance + amount);
+      });
+
+      it('removed the notes', async () => {
+        const [escrowsParticipant1, escrowsAgent] = await Promise.all([
+          escrowClient.getEscrowNotes(participant1.getAddress()),
+          escrowClient.getEscrowNotes(agent.getAddress()),
+        ]);
 
         expect(escrowsParticipant1.length).toBe(0);
+        expect(escrowsAgent.length).toBe(0);
+      });
+    });
 
-        // Now we call broadcast escrow note for participant1
-        await asset.withWallet(agent).methods.broadcast_escrow_note_for(
-          [ 
-            participant1.getAddress(), 
-            participant2.getAddress(),
-            ADDRESS_ZERO,
-            ADDRESS_ZERO
-          ],
-          randomness
-        ).send().wait();
+    describe('Escrow sharing', () => {
+      let amount: bigint;
+      let escrow: Escrow;
+      let participants: AztecAddress[];
 
-        let newEscrowsParticipant1 = await pxe.getNotes({ owner: participant1.getAddress(), ...filter });
+      beforeAll(async () => {
+        // More participants than fit in a single `share_escrow` call
+        const [participant4, participant5] = await createAccounts(pxe, 2);
+        participants = [participant1, participant2, participant3, participant4, participant5].map(p => p.getAddress());
+      });
 
-        expect(newEscrowsParticipant1.length).toBe(1);
+      it('escrow', async () => {
+        const balance = await asset.methods.balance_of_private(from.address).view();
+        amount = balance / 2n;
+        expect(amount).toBeGreaterThan(0n);
 
-        // Amount is correct
-        expect(newEscrowsParticipant1[0].note.items[0].toBigInt()).toEqual(amount);
-        // Agent is correct
-        expect(newEscrowsParticipant1[0].note.items[1].toBigInt()).toEqual(agent.getAddress().toBigInt());
-        // Randomness is correct
-        expect(newEscrowsParticipant1[0].note.items[2].toBigInt()).toEqual(randomness); 
+        escrow = await escrowClient.escrow(from.address, agent.getAddress(), amount, FAR_EXPIRY);
+        replayEscrow(from.address, escrow);
+      });
 
-        let newEscrowsParticipant2 = await pxe.getNotes({ owner: participant2.getAddress(), ...filter });
+      it('is not visible to the participants before sharing', async () => {
+        for (const participant of participants) {
+          const shared = await escrowClient.getSharedEscrows(participant);
+          expect(shared.find(e => e.randomness.equals(escrow.randomness))).toBeUndefined();
+        }
+      });
 
-        expect(newEscrowsParticipant2.length).toBe(1);
+      it('shares the escrow in batches', async () => {
+        const receipts = await escrowClient.withWallet(agent).share(participants, escrow.randomness);
+        expect(receipts.length).toBe(2);
+      });
 
-        // Amount is correct
-        expect(newEscrowsParticipant2[0].note.items[0].toBigInt()).toEqual(amount);
-        // Agent is correct
-        expect(newEscrowsParticipant2[0].note.items[1].toBigInt()).toEqual(agent.getAddress().toBigInt());
-        // Randomness is correct
-        expect(newEscrowsParticipant2[0].note.items[2].toBigInt()).toEqual(randomness); 
+      it('created the correct notes for the participants', async () => {
+        for (const participant of participants) {
+          const shared = await escrowClient.getSharedEscrows(participant);
+          const sharedEscrow = shared.find(e => e.randomness.equals(escrow.randomness))!;
+
+          // Amount is correct
+          expect(sharedEscrow.amount).toEqual(amount);
+          // Agent is correct
+          expect(sharedEscrow.owner).toEqual(agent.getAddress());
+          // Depositor is correct
+          expect(sharedEscrow.depositor).toEqual(from.address);
+        }
       });
-  
-      it('settle_escrow', async () => {
-        const escrows = await asset.withWallet(wallets[0]).methods.get_escrows(0n).view();
+
+      it('does not give the participants a settleable note', async () => {
+        const escrowsParticipant1 = await escrowClient.getEscrowNotes(participant1.getAddress());
+        expect(escrowsParticipant1.length).toBe(0);
+      });
+
+      it('can still be settled by the agent', async () => {
         const participant1Balance = await asset.methods.balance_of_private(participant1.getAddress()).view();
 
-        const randomness = escrows[0]._value.randomness;
-        const txClaim = asset.withWallet(agent).methods.settle_escrow(agent.getAddress(), participant1.getAddress(), randomness, 0).send();
-        const receipt = await txClaim.wait();
+        const receipt = await escrowClient
+          .withWallet(agent)
+          .settle(agent.getAddress(), participant1.getAddress(), escrow.randomness);
         expect(receipt.status).toBe(TxStatus.MINED);
-        tokenSim.settle_escrow(participant1.getAddress(), amount);
-  
+        const randomness = escrow.randomness.toBigInt();
+        tokenSim.settleEscrow(agent.getAddress(), agent.getAddress(), participant1.getAddress(), randomness, 0n);
+
         const newBalance = await asset.methods.balance_of_private(participant1.getAddress()).view();
         expect(newBalance).toEqual(participant1Balance + amount);
       });
 
-      it('removed the notes', async () => {
-        const filter = { contractAddress: asset.address, storageSlot: new Fr(7) };
-
-        // Transform all of the pxe getNotes call into a promise.all statement:
-        const [escrowsParticipant1, escrowsAgent] = 
-          await Promise.all([
-            pxe.getNotes({owner: participant1.getAddress(), ...filter}),
-            pxe.getNotes({owner: agent.getAddress(), ...filter}),
-          ]);
-
-        expect(escrowsParticipant1.length).toBe(0);
-        expect(escrowsAgent.length).toBe(0);
+      it('reverts when sharing an escrow that does not exist', async () => {
+        const shareTx = asset
+          .withWallet(agent)
+          .methods.share_escrow([participant1.getAddress(), ADDRESS_ZERO, ADDRESS_ZERO, ADDRESS_ZERO], 0n);
+        await expectRevert(shareTx.simulate(), 'ESCROW_NOT_FOUND');
       });
     });
 
@@ -207,24 +336,25 @@ describe('e2e_token_contract', () => {
         balance = await asset.methods.balance_of_private(from.address).view();
         amount = balance / 2n;
         expect(amount).toBeGreaterThan(0n);
-  
-        const tx = asset.withWallet(wallets[0]).methods.escrow(from.address, agent.getAddress(), amount, 0).send();
-        const receipt = await tx.wait();
-        expect(receipt.status).toBe(TxStatus.MINED);
-        tokenSim.escrow(from.address, amount);
+
+        const escrow = await escrowClient
+          .withWallet(wallets[0])
+          .escrow(from.address, agent.getAddress(), amount, FAR_EXPIRY);
+        replayEscrow(from.address, escrow);
       });
 
       it('pay random address', async () => {
-        const escrows = await asset.withWallet(agent).methods.get_escrows(0n).view();
+        const escrows = await escrowClient.withWallet(agent).getEscrows();
         const newUser = await createAccount(pxe);
         const userBalance = await asset.methods.balance_of_private(newUser.getAddress()).view();
         expect(userBalance).toBe(0n);
 
-        const randomness = escrows[0]._value.randomness;
-        const txClaim = asset.withWallet(agent).methods.settle_escrow(agent.getAddress(), newUser.getAddress(), randomness, 0).send();
-        const receipt = await txClaim.wait();
+        const randomness = escrows[0].randomness;
+        const receipt = await escrowClient
+          .withWallet(agent)
+          .settle(agent.getAddress(), newUser.getAddress(), randomness);
         expect(receipt.status).toBe(TxStatus.MINED);
-        tokenSim.settle_escrow(newUser.getAddress(), amount);
+        tokenSim.settleEscrow(agent.getAddress(), agent.getAddress(), newUser.getAddress(), randomness.toBigInt(), 0n);
   
         const newBalance = await asset.methods.balance_of_private(newUser.getAddress()).view();
         expect(newBalance).toEqual(userBalance + amount);
@@ -243,40 +373,236 @@ describe('e2e_token_contract', () => {
 
         newUser = await createAccount(pxe);
         // From address gives permission to newUser to call escrow on their behalf
-        const nonce = Fr.random();
-        const action = asset
-        .withWallet(newUser)
-        .methods.escrow(from.address, agent.getAddress(), amount, nonce);
-        await approveAction(action, newUser, wallets[0], nonce);
+        const { action, nonce } = await authWits.authorizeEscrow(
+          wallets[0],
+          newUser,
+          agent.getAddress(),
+          amount,
+          FAR_EXPIRY,
+        );
   
         const tx = action.send();
         const receipt = await tx.wait();
         expect(receipt.status).toBe(TxStatus.MINED);
-        tokenSim.escrow(from.address, amount);
+        const [escrow] = await escrowClient.getEscrowNotes(agent.getAddress(), receipt.txHash);
+        tokenSim.addAuthWit(from.address, newUser.getAddress(), {
+          name: 'escrow',
+          args: [from.address, agent.getAddress(), amount, FAR_EXPIRY, nonce.toBigInt()],
+        });
+        replayEscrow(newUser.getAddress(), escrow, nonce.toBigInt());
 
         const newBalance = await asset.methods.balance_of_private(from.address).view();
         expect(newBalance).toEqual(balance - amount);
       });
 
       it('settle_escrow on behalf of another user', async () => {
-        const escrows = await asset.withWallet(agent).methods.get_escrows(0n).view();
+        const escrows = await escrowClient.withWallet(agent).getEscrows();
         const participant1Balance = await asset.methods.balance_of_private(participant1.getAddress()).view();
-        const randomness = escrows[0]._value.randomness;
-
-        const nonce = Fr.random();
-        const action = asset.withWallet(newUser).methods.settle_escrow(agent.getAddress(), participant1.getAddress(), randomness, nonce);
-        await approveAction(action, newUser, agent, nonce);
+        const randomness = escrows[0].randomness;
+
+        const { action, nonce } = await authWits.authorizeSettleEscrow(
+          agent,
+          newUser,
+          participant1.getAddress(),
+          randomness,
+        );
         
         const tx = action.send();
         const receipt = await tx.wait();
         expect(receipt.status).toBe(TxStatus.MINED);
-        tokenSim.settle_escrow(participant1.getAddress(), amount);
+        const [owner, caller] = [agent.getAddress(), newUser.getAddress()];
+        const args = [owner, participant1.getAddress(), randomness.toBigInt(), nonce.toBigInt()] as const;
+        tokenSim.addAuthWit(owner, caller, { name: 'settle_escrow', args: [...args] });
+        tokenSim.settleEscrow(caller, ...args);
   
         const newBalance = await asset.methods.balance_of_private(participant1.getAddress()).view();
         expect(newBalance).toEqual(participant1Balance + amount);
       });
     });
 
+    describe('Split settlement', () => {
+      let amount: bigint;
+      let escrow: Escrow;
+      let remainder: Escrow;
+
+      it('escrow', async () => {
+        const balance = await asset.methods.balance_of_private(from.address).view();
+        amount = balance / 2n;
+        expect(amount).toBeGreaterThan(4n);
+
+        escrow = await escrowClient.escrow(from.address, agent.getAddress(), amount, FAR_EXPIRY);
+        replayEscrow(from.address, escrow);
+      });
+
+      it('reverts when paying out more than the escrowed amount', async () => {
+        const settleTx = asset
+          .withWallet(agent)
+          .methods.settle_escrow_split(
+            agent.getAddress(),
+            [participant1.getAddress(), participant2.getAddress(), ADDRESS_ZERO, ADDRESS_ZERO],
+            [amount, 1n, 0n, 0n],
+            escrow.randomness,
+            0,
+          );
+        await expectRevert(settleTx.simulate(), 'INSUFFICIENT_ESCROW');
+      });
+
+      it('pays several recipients and keeps the rest in escrow', async () => {
+        const payouts = [
+          { recipient: participant1.getAddress(), amount: amount / 4n },
+          { recipient: participant2.getAddress(), amount: amount / 4n },
+        ];
+        const [participant1Balance, participant2Balance] = await Promise.all(
+          payouts.map(({ recipient }) => asset.methods.balance_of_private(recipient).view()),
+        );
+
+        const settlement = await escrowClient
+          .withWallet(agent)
+          .settleSplit(agent.getAddress(), payouts, escrow.randomness);
+        expect(settlement.receipt.status).toBe(TxStatus.MINED);
+        remainder = settlement.remainder!;
+        tokenSim.settleEscrowSplit(
+          agent.getAddress(),
+          agent.getAddress(),
+          payouts,
+          escrow.randomness.toBigInt(),
+          0n,
+          remainder.randomness.toBigInt(),
+        );
+
+        expect(await asset.methods.balance_of_private(participant1.getAddress()).view()).toEqual(
+          participant1Balance + amount / 4n,
+        );
+        expect(await asset.methods.balance_of_private(participant2.getAddress()).view()).toEqual(
+          participant2Balance + amount / 4n,
+        );
+
+        expect(tokenSim.getEscrow(remainder.randomness.toBigInt())?.amount).toEqual(remainder.amount);
+        expect(remainder.owner).toEqual(agent.getAddress());
+        expect(remainder.depositor).toEqual(escrow.depositor);
+        expect(remainder.expiry).toEqual(escrow.expiry);
+      });
+
+      it('releases the remaining amount', async () => {
+        const payouts = [{ recipient: participant3.getAddress(), amount: remainder.amount }];
+        const participant3Balance = await asset.methods.balance_of_private(participant3.getAddress()).view();
+
+        const settlement = await escrowClient
+          .withWallet(agent)
+          .settleSplit(agent.getAddress(), payouts, remainder.randomness);
+        expect(settlement.remainder).toBeUndefined();
+        const owner = agent.getAddress();
+        tokenSim.settleEscrowSplit(owner, owner, payouts, remainder.randomness.toBigInt(), 0n);
+
+        const newBalance = await asset.methods.balance_of_private(participant3.getAddress()).view();
+        expect(newBalance).toEqual(participant3Balance + remainder.amount);
+      });
+    });
+
+    describe('Refund to the depositor', () => {
+      const EXPIRY_DELAY = 3;
+      let amount: bigint;
+      let escrow: Escrow;
+
+      it('escrow with an expiry', async () => {
+        const balance = await asset.methods.balance_of_private(from.address).view();
+        amount = balance / 2n;
+        expect(amount).toBeGreaterThan(0n);
+
+        const expiry = BigInt((await pxe.getBlockNumber()) + EXPIRY_DELAY);
+        escrow = await escrowClient.escrow(from.address, agent.getAddress(), amount, expiry);
+        replayEscrow(from.address, escrow);
+
+        expect(escrow.amount).toEqual(amount);
+        expect(escrow.depositor).toEqual(from.address);
+        expect(escrow.expiry).toEqual(expiry);
+      });
+
+      it('shares the note with the depositor', async () => {
+        const escrowsDepositor = await escrowClient.getEscrowNotes(from.address);
+        expect(escrowsDepositor.map(e => e.randomness)).toContainEqual(escrow.randomness);
+      });
+
+      it('reverts when refunding before expiry', async () => {
+        const refundTx = asset.withWallet(wallets[0]).methods.refund_escrow(from.address, escrow.randomness, 0);
+        await expectRevert(refundTx.simulate(), 'ESCROW_NOT_EXPIRED');
+      });
+
+      it('reverts when refunding from a different address and with invalid nonce', async () => {
+        const refundTx = asset.withWallet(agent).methods.refund_escrow(from.address, escrow.randomness, 0);
+        await expectRevert(refundTx.simulate(), 'AUTHWIT_NOT_FOUND');
+      });
+
+      it('refunds the depositor after expiry', async () => {
+        // Every mined tx advances the chain by one block
+        while (BigInt(await pxe.getBlockNumber()) < escrow.expiry) {
+          await fixture.mintPublic(wallets[0], 1n);
+        }
+        const balance = await asset.methods.balance_of_private(from.address).view();
+
+        const receipt = await escrowClient.withWallet(wallets[0]).refund(from.address, escrow.randomness);
+        expect(receipt.status).toBe(TxStatus.MINED);
+        tokenSim.blockNumber = receipt.blockNumber!;
+        tokenSim.refundEscrow(from.address, from.address, escrow.randomness.toBigInt(), 0n);
+
+        const newBalance = await asset.methods.balance_of_private(from.address).view();
+        expect(newBalance).toEqual(balance + amount);
+      });
+
+      it('cannot be settled after the refund', async () => {
+        const settleTx = asset
+          .withWallet(agent)
+          .methods.settle_escrow(agent.getAddress(), participant1.getAddress(), escrow.randomness, 0);
+        await expectRevert(settleTx.simulate(), 'ESCROW_NOT_FOUND');
+      });
+    });
+
+    describe('Listing escrows', () => {
+      let escrows: Escrow[];
+
+      it('escrow for two owners', async () => {
+        const balance = await asset.methods.balance_of_private(from.address).view();
+        const amount = balance / 4n;
+        expect(amount).toBeGreaterThan(0n);
+
+        escrows = [
+          await escrowClient.escrow(from.address, agent.getAddress(), amount, FAR_EXPIRY),
+          await escrowClient.escrow(from.address, participant1.getAddress(), amount, FAR_EXPIRY),
+        ];
+        escrows.forEach(escrow => replayEscrow(from.address, escrow));
+      });
+
+      it('lists only the escrows of the given owner', async () => {
+        const listed: Escrow[] = [];
+        for await (const escrow of listEscrows(asset.withWallet(agent), agent.getAddress())) {
+          listed.push(escrow);
+        }
+
+        expect(listed.every(escrow => escrow.owner.equals(agent.getAddress()))).toBe(true);
+        expect(listed.map(escrow => escrow.randomness)).toContainEqual(escrows[0].randomness);
+        expect(listed.map(escrow => escrow.randomness)).not.toContainEqual(escrows[1].randomness);
+      });
+
+      it('lists the escrows of every owner', async () => {
+        const listed: Escrow[] = [];
+        for await (const escrow of listEscrows(asset.withWallet(wallets[0]))) {
+          listed.push(escrow);
+        }
+
+        expect(listed.map(escrow => escrow.randomness)).toEqual(expect.arrayContaining(escrows.map(e => e.randomness)));
+      });
+
+      it('lists the private notes adding up to the balance', async () => {
+        let sum = 0n;
+        for await (const note of listPrivateNotes(asset, from.address)) {
+          expect(note.owner).toEqual(from.address);
+          sum += note.amount;
+        }
+
+        expect(sum).toEqual(await asset.methods.balance_of_private(from.address).view());
+      });
+    });
+
     describe('Failure cases', () => {
 
       let balance: bigint;
@@ -287,17 +613,21 @@ describe('e2e_token_contract', () => {
 
           expect(await asset.methods.balance_of_private(newUser.getAddress()).view()).toEqual(0n);
 
-          let escrowTx = asset.withWallet(newUser).methods.escrow(newUser.getAddress(), agent.getAddress(), 1n, 0);
-          await expect(escrowTx.simulate()).rejects.toThrowError(`(JSON-RPC PROPAGATED) Assertion failed: Balance too low 'minuend.ge(subtrahend) == true'`);
+          const escrowTx = asset
+            .withWallet(newUser)
+            .methods.escrow(newUser.getAddress(), agent.getAddress(), 1n, FAR_EXPIRY, 0);
+          await expectRevert(escrowTx.simulate(), 'INSUFFICIENT_BALANCE');
         })
 
         it('fails when invalid nonce provided', async () => {
           balance = await asset.methods.balance_of_private(from.address).view();
           let amount = balance / 2n;
           expect(amount).toBeGreaterThan(0n);
-    
-          const tx = asset.withWallet(participant1).methods.escrow(from.address, agent.getAddress(), amount, 0);
-          await expect(tx.simulate()).rejects.toThrowError();
+
+          const tx = asset
+            .withWallet(participant1)
+            .methods.escrow(from.address, agent.getAddress(), amount, FAR_EXPIRY, 0);
+          await expectRevert(tx.simulate(), 'AUTHWIT_NOT_FOUND');
         })
       })
 
@@ -309,37 +639,192 @@ describe('e2e_token_contract', () => {
           amount = balance / 2n;
           expect(amount).toBeGreaterThan(0n);
     
-          const tx = asset.methods.escrow(from.address, agent.getAddress(), amount, 0).send();
-          const receipt = await tx.wait();
-          expect(receipt.status).toBe(TxStatus.MINED);
-          tokenSim.escrow(from.address, amount);
+          const escrow = await escrowClient.escrow(from.address, agent.getAddress(), amount, FAR_EXPIRY);
+          replayEscrow(from.address, escrow);
     
           const newBalance = await asset.methods.balance_of_private(from.address).view();
           expect(newBalance).toEqual(balance - amount);
         });
     
         it('reverts when calling from a different address and with invalid nonce', async () => {
-          const escrows = await asset.withWallet(wallets[0]).methods.get_escrows(0n).view();
-          const randomness = escrows[0]._value.randomness;
+          const escrows = await escrowClient.withWallet(wallets[0]).getEscrows(agent.getAddress());
+          const randomness = escrows[0].randomness;
           const settleTx = asset.withWallet(wallets[0]).methods.settle_escrow(agent.getAddress(), participant1.getAddress(), randomness, 0);
-          await expect(settleTx.simulate()).rejects.toThrowError();
+          await expectRevert(settleTx.simulate(), 'AUTHWIT_NOT_FOUND');
         });
 
         it('reverts when calling from the correct agent but with an invalid nonce', async () => {
-          const escrows = await asset.withWallet(wallets[0]).methods.get_escrows(0n).view();
-          const randomness = escrows[0]._value.randomness;
+          const escrows = await escrowClient.withWallet(wallets[0]).getEscrows(agent.getAddress());
+          const randomness = escrows[0].randomness;
           const settleTx = asset.withWallet(agent).methods.settle_escrow(agent.getAddress(), participant1.getAddress(), randomness, 1n);
-          await expect(settleTx.simulate()).rejects.toThrowError('invalid nonce');
+          await expectRevert(settleTx.simulate(), 'INVALID_NONCE');
         })
 
         it('reverts if escrow does not exist', async () => {
           const settleTx = asset.withWallet(agent).methods.settle_escrow(agent.getAddress(), participant1.getAddress(), 0n, 0);
-          await expect(settleTx.simulate()).rejects.toThrowError('escrow does not exist');
+          await expectRevert(settleTx.simulate(), 'ESCROW_NOT_FOUND');
         });
       })
     });
   });
 
+  describe('ShieldManager', () => {
+    const amount = 10n;
+
+    let shieldManager: ShieldManager;
+    let recipient: AztecAddress;
+
+    beforeAll(async () => {
+      shieldManager = new ShieldManager(asset, wallets[0]);
+      recipient = wallets[1].getAddress();
+      await fixture.mintPublic(wallets[0], amount);
+    });
+
+    it('tracks shields from mint_private and shield', async () => {
+      const owner = wallets[0].getAddress();
+      const minted = await shieldManager.mintPrivate(amount);
+      tokenSim.mintPrivate(owner, amount, minted.secretHash.toBigInt());
+      const mintedTwice = await shieldManager.mintPrivate(amount * 2n);
+      tokenSim.mintPrivate(owner, amount * 2n, mintedTwice.secretHash.toBigInt());
+      const shielded = await shieldManager.shield(owner, amount);
+      tokenSim.shield(owner, owner, amount, shielded.secretHash.toBigInt(), 0n);
+
+      const unclaimed = await shieldManager.listUnclaimed();
+      expect(unclaimed.map(shield => shield.amount)).toEqual([amount, amount * 2n, amount]);
+      expect(unclaimed.every(shield => shield.registered)).toBe(true);
+    });
+
+    it('redeems every unclaimed shield', async () => {
+      const balanceBefore = await asset.methods.balance_of_private(recipient).view();
+
+      const unclaimed = await shieldManager.listUnclaimed();
+      const receipts = await shieldManager.redeemAll(recipient);
+      expect(receipts).toHaveLength(3);
+      for (const shield of unclaimed) {
+        tokenSim.redeemShield(wallets[0].getAddress(), recipient, shield.amount, shield.secretHash.toBigInt());
+      }
+
+      expect(await asset.methods.balance_of_private(recipient).view()).toEqual(balanceBefore + amount * 4n);
+      expect(await shieldManager.listUnclaimed()).toEqual([]);
+    });
+  });
+
+  describe('Shield cancellation', () => {
+    const amount = 10n;
+
+    let shieldManager: ShieldManager;
+    let shielder: AztecAddress;
+    let reclaimed: ShieldRecord;
+
+    beforeAll(async () => {
+      shieldManager = new ShieldManager(asset, wallets[0]);
+      shielder = wallets[0].getAddress();
+      await fixture.mintPublic(wallets[0], amount * 2n);
+    });
+
+    it('returns the shield to the shielder with the secret', async () => {
+      const balanceBefore = await asset.methods.balance_of_public(shielder).view();
+      const { secretHash, secret } = await shieldManager.shield(shielder, amount);
+      tokenSim.shield(shielder, shielder, amount, secretHash.toBigInt(), 0n);
+
+      await shieldManager.cancel(secretHash);
+      tokenSim.cancelShield(shielder, amount, secretHash.toBigInt());
+
+      expect(await asset.methods.balance_of_public(shielder).view()).toEqual(balanceBefore);
+      expect(await shieldManager.listUnclaimed()).toEqual([]);
+
+      const tx = asset.withWallet(wallets[0]).methods.redeem_shield(shielder, amount, secret);
+      await expectRevert(tx.simulate(), 'SHIELD_NOT_FOUND');
+    });
+
+    it('reverts when cancelling a shield created by mint_private', async () => {
+      const { secretHash } = await shieldManager.mintPrivate(amount);
+      tokenSim.mintPrivate(shielder, amount, secretHash.toBigInt());
+
+      await expect(shieldManager.getReclaimableAt(secretHash)).resolves.toEqual(0n);
+      const { secret } = (await shieldManager.listUnclaimed())[0];
+      const tx = asset.withWallet(wallets[0]).methods.cancel_shield(amount, secret);
+      await expectRevert(tx.simulate(), 'NOT_SHIELDER');
+
+      await shieldManager.redeemAll(shielder);
+      tokenSim.redeemShield(shielder, shielder, amount, secretHash.toBigInt());
+    });
+
+    it('only shields an amount and secret hash that no pending shield uses', async () => {
+      const secret = Fr.random();
+      const secretHash = computeMessageSecretHash(secret);
+      const token = asset.withWallet(wallets[0]);
+
+      // Notes minted with the same amount and secret hash are each redeemed once
+      for (let i = 0; i < 2; i++) {
+        const receipt = await token.methods.mint_private(amount, secretHash).send().wait();
+        await addPendingShieldNoteToPXE(wallets[0], amount, secretHash, receipt.txHash);
+        tokenSim.mintPrivate(shielder, amount, secretHash.toBigInt());
+      }
+      await expectRevert(token.methods.shield(shielder, amount, secretHash, 0).simulate(), 'SHIELD_EXISTS');
+      for (let i = 0; i < 2; i++) {
+        await token.methods.redeem_shield(shielder, amount, secret).send().wait();
+        tokenSim.redeemShield(shielder, shielder, amount, secretHash.toBigInt());
+      }
+
+      const receipt = await token.methods.shield(shielder, amount, secretHash, 0).send().wait();
+      await addPendingShieldNoteToPXE(wallets[0], amount, secretHash, receipt.txHash);
+      tokenSim.shield(shielder, shielder, amount, secretHash.toBigInt(), 0n);
+      await expectRevert(token.methods.shield(shielder, amount, secretHash, 0).simulate(), 'SHIELD_EXISTS');
+      await expectRevert(token.methods.mint_private(amount, secretHash).simulate(), 'SHIELD_EXISTS');
+
+      await token.methods.cancel_shield(amount, secret).send().wait();
+      tokenSim.cancelShield(shielder, amount, secretHash.toBigInt());
+    });
+
+    it('reverts when reclaiming before the delay', async () => {
+      const { secretHash, txHash } = await shieldManager.shield(shielder, amount);
+      tokenSim.shield(shielder, shielder, amount, secretHash.toBigInt(), 0n);
+
+      const { blockNumber } = await pxe.getTxReceipt(txHash!);
+      expect(await shieldManager.getReclaimableAt(secretHash)).toEqual(BigInt(blockNumber! + SHIELD_RECLAIM_DELAY));
+
+      const tx = asset.withWallet(wallets[0]).methods.reclaim_shield(amount, secretHash);
+      await expectRevert(tx.simulate(), 'SHIELD_NOT_RECLAIMABLE');
+    });
+
+    it('reverts when reclaiming and the caller is not the shielder', async () => {
+      const [{ secretHash }] = await shieldManager.listUnclaimed();
+      const tx = asset.withWallet(wallets[1]).methods.reclaim_shield(amount, secretHash);
+      await expectRevert(tx.simulate(), 'NOT_SHIELDER');
+
+      await shieldManager.redeemAll(shielder);
+      tokenSim.redeemShield(shielder, shielder, amount, secretHash.toBigInt());
+    });
+
+    it('reclaims the shield after the delay', async () => {
+      reclaimed = await shieldManager.shield(shielder, amount);
+      tokenSim.blockNumber = (await pxe.getTxReceipt(reclaimed.txHash!)).blockNumber!;
+      tokenSim.shield(shielder, shielder, amount, reclaimed.secretHash.toBigInt(), 0n);
+
+      // Every mined tx advances the chain by one block
+      const reclaimableAt = await shieldManager.getReclaimableAt(reclaimed.secretHash);
+      while (BigInt(await pxe.getBlockNumber()) < reclaimableAt) {
+        await fixture.mintPublic(wallets[1], 1n);
+      }
+      const balanceBefore = await asset.methods.balance_of_public(shielder).view();
+
+      const receipt = await shieldManager.reclaim(reclaimed.secretHash);
+      expect(receipt.status).toBe(TxStatus.MINED);
+      tokenSim.blockNumber = receipt.blockNumber!;
+      tokenSim.reclaimShield(shielder, amount, reclaimed.secretHash.toBigInt());
+
+      expect(await asset.methods.balance_of_public(shielder).view()).toEqual(balanceBefore + amount);
+      expect(await shieldManager.getReclaimableAt(reclaimed.secretHash)).toEqual(0n);
+      expect(await shieldManager.listUnclaimed()).toEqual([]);
+    });
+
+    it('reverts when redeeming a reclaimed shield', async () => {
+      const tx = asset.withWallet(wallets[0]).methods.redeem_shield(shielder, amount, reclaimed.secret);
+      await expectRevert(tx.simulate(), 'SHIELD_RECLAIMED');
+    });
+  });
+
   describe('shield_private', () => {
     let amount: bigint = 1000n;
     let mintAmount: bigint = 10000n;
@@ -354,7 +839,7 @@ describe('e2e_token_contract', () => {
       from = wallets[0].getCompleteAddress();
       user = await createAccount(pxe);
 
-      await mintPublicTokens(wallets[0], wallets[0], mintAmount);
+      await fixture.mintPublic(wallets[0], mintAmount);
 
       userPrivateBalanceBefore = await asset.methods.balance_of_private(user.getAddress()).view();
       minterPublicBalanceBefore = await asset.methods.balance_of_public(wallets[0].getAddress()).view();
@@ -362,14 +847,14 @@ describe('e2e_token_contract', () => {
 
     it('reverts if not enough balance', async () => {
       const tx = asset.withWallet(wallets[0]).methods.shield_private(from.address, user.getAddress(), minterPublicBalanceBefore + 1n, 0);
-      await expect(tx.simulate()).rejects.toThrowError();
+      await expectRevert(tx.simulate(), 'UNDERFLOW');
     });
 
     it('tx is mined', async () => {
       const tx = asset.withWallet(wallets[0]).methods.shield_private(from.address, user.getAddress(), amount, 0);
       const receipt = await tx.send().wait();
       expect(receipt.status).toBe(TxStatus.MINED);
-      tokenSim.shieldPrivate(from.address, user.getAddress(), amount);
+      tokenSim.shieldPrivate(from.address, from.address, user.getAddress(), amount, 0n);
     });
 
     it('decreases the public balance of the sender', async () => {
@@ -382,6 +867,870 @@ describe('e2e_token_contract', () => {
       expect(userPrivateBalanceAfter).toEqual(userPrivateBalanceBefore + amount);
     });
   });
+
+  describe('Batch transfers', () => {
+    const amount = 10n;
+
+    let payments: Payment[];
+
+    beforeAll(async () => {
+      // more payments than fit in a single tx
+      payments = [1, 2, 1, 2, 1].map((w, i) => ({
+        recipient: wallets[w].getAddress(),
+        amount: amount * BigInt(i + 1),
+      }));
+      const total = payments.reduce((sum, p) => sum + p.amount, 0n);
+      await fixture.mintPublic(wallets[0], total * 2n);
+      await fixture.mintPrivate(wallets[0], total);
+    });
+
+    it('pays every recipient from the private balance', async () => {
+      const from = wallets[0].getAddress();
+      const receipts = await batchTransfer(asset.withWallet(wallets[0]), from, payments);
+      expect(receipts).toHaveLength(2);
+      chunkPayments(payments).forEach(chunk => tokenSim.batchTransfer(from, from, chunk, 0n));
+    });
+
+    it('pays every recipient from the public balance', async () => {
+      const from = wallets[0].getAddress();
+      const receipts = await batchTransferPublic(asset.withWallet(wallets[0]), from, payments);
+      expect(receipts).toHaveLength(2);
+      chunkPayments(payments).forEach(chunk => tokenSim.batchTransferPublic(from, from, chunk, 0n));
+    });
+
+    it('pays the recipients from the private balance of another account with an authwit', async () => {
+      const delegated = payments.slice(0, BATCH_TRANSFER_SIZE);
+      const total = delegated.reduce((sum, p) => sum + p.amount, 0n);
+      await fixture.mintPrivate(wallets[0], total);
+
+      const { nonce } = await authWits.authorizeBatchTransfer(wallets[0], wallets[1], delegated);
+      const from = wallets[0].getAddress();
+      const receipts = await batchTransfer(asset.withWallet(wallets[1]), from, delegated, [nonce]);
+      expect(receipts).toHaveLength(1);
+      tokenSim.addAuthWit(from, wallets[1].getAddress(), {
+        name: 'batch_transfer',
+        args: [from, ...delegated.flatMap(({ recipient, amount }) => [recipient, amount]), nonce.toBigInt()],
+      });
+      tokenSim.batchTransfer(wallets[1].getAddress(), from, delegated, nonce.toBigInt());
+    });
+
+    it('pays the recipients from the public balance of another account with an authwit', async () => {
+      const delegated = payments.slice(0, BATCH_TRANSFER_SIZE);
+      const { nonce } = await authWits.authorizeBatchTransferPublic(wallets[0], wallets[1], delegated);
+      const from = wallets[0].getAddress();
+      const receipts = await batchTransferPublic(asset.withWallet(wallets[1]), from, delegated, [nonce]);
+      expect(receipts).toHaveLength(1);
+      tokenSim.addAuthWit(from, wallets[1].getAddress(), {
+        name: 'batch_transfer_public',
+        args: [from, ...delegated.flatMap(({ recipient, amount }) => [recipient, amount]), nonce.toBigInt()],
+      });
+      tokenSim.batchTransferPublic(wallets[1].getAddress(), from, delegated, nonce.toBigInt());
+    });
+
+    it('reverts when the total is above the balance', async () => {
+      const balance = await asset.methods.balance_of_public(wallets[0].getAddress()).view();
+      const recipients = [wallets[1].getAddress(), wallets[2].getAddress(), ADDRESS_ZERO, ADDRESS_ZERO];
+      const amounts = [balance, 1n, 0n, 0n];
+      const tx = asset
+        .withWallet(wallets[0])
+        .methods.batch_transfer_public(wallets[0].getAddress(), recipients, amounts, 0);
+      await expectRevert(tx.simulate(), 'UNDERFLOW');
+    });
+  });
+
+  describe('Transfer with memo', () => {
+    const amount = 25n;
+    const invoiceId = 'INV-0042';
+
+    beforeAll(async () => {
+      await fixture.mintPrivate(wallets[0], amount * 2n);
+    });
+
+    it('sends the memo to the recipient along with the tokens', async () => {
+      const sender = wallets[0].getAddress();
+      const recipient = wallets[1].getAddress();
+      const receipt = await transferWithMemo(
+        asset.withWallet(wallets[0]),
+        sender,
+        recipient,
+        amount,
+        encodeShortString(invoiceId),
+      );
+      tokenSim.transferWithMemo(sender, sender, recipient, amount, encodeShortString(invoiceId).toBigInt(), 0n);
+
+      const [memo] = await getMemos(pxe, asset, recipient, receipt.txHash);
+      expect(decodeShortString(memo.memo.toBigInt())).toEqual(invoiceId);
+      expect(memo.sender).toEqual(sender);
+      expect(memo.amount).toEqual(amount);
+
+      const payments = await getReceivedPayments(pxe, asset, recipient);
+      const payment = payments.find(p => p.txHash.equals(receipt.txHash));
+      expect(payment?.amount).toEqual(amount);
+      expect(payment?.memo).toEqual(memo);
+      // notes received without a memo are still listed
+      expect(payments.filter(p => !p.memo).length).toBeGreaterThan(0);
+    });
+
+    it('does not send the memo to the sender', async () => {
+      const sender = wallets[0].getAddress();
+      const recipient = wallets[2].getAddress();
+      const receipt = await transferWithMemo(
+        asset.withWallet(wallets[0]),
+        sender,
+        recipient,
+        amount,
+        encodeShortString(invoiceId),
+      );
+      tokenSim.transferWithMemo(sender, sender, recipient, amount, encodeShortString(invoiceId).toBigInt(), 0n);
+
+      expect(await getMemos(pxe, asset, sender, receipt.txHash)).toEqual([]);
+    });
+
+    it('reverts when sending on behalf of another account without approval', async () => {
+      const tx = asset
+        .withWallet(wallets[1])
+        .methods.transfer_with_memo(wallets[0].getAddress(), wallets[1].getAddress(), amount, 1n, 0);
+      await expectRevert(tx.simulate(), 'AUTHWIT_NOT_FOUND');
+    });
+  });
+
+  describe('Transaction history', () => {
+    const amount = 40n;
+
+    let history: HistoryService;
+
+    beforeAll(async () => {
+      await fixture.reset();
+      useToken();
+      history = new HistoryService(pxe, asset.address, wallets[0].getAddress());
+      await history.sync();
+    });
+
+    it('records mints and transfers with running balances', async () => {
+      const owner = wallets[0].getAddress();
+      const shieldManager = new ShieldManager(asset, wallets[0]);
+
+      const { secretHash } = await shieldManager.mintPrivate(amount);
+      tokenSim.mintPrivate(owner, amount, secretHash.toBigInt());
+      // the pending shield must be seen before it's redeemed
+      await history.sync();
+      await shieldManager.redeem(secretHash, owner);
+      tokenSim.redeemShield(owner, owner, amount, secretHash.toBigInt());
+      await history.sync();
+
+      const receipt = await asset
+        .withWallet(wallets[0])
+        .methods.transfer(owner, wallets[1].getAddress(), amount / 2n, 0)
+        .send()
+        .wait();
+      tokenSim.transfer(owner, owner, wallets[1].getAddress(), amount / 2n, 0n);
+      await history.sync();
+
+      const entries = await history.getEntries();
+      const [mint, transfer] = entries.slice(-2);
+      expect(mint).toMatchObject({ kind: 'mint', amount });
+      expect(transfer).toMatchObject({ kind: 'transfer_out', amount: -amount / 2n, txHash: receipt.txHash });
+      expect(transfer.balance).toEqual(await asset.methods.balance_of_private(owner).view());
+    });
+
+    it('exports the entries', async () => {
+      const entries = await history.getEntries();
+
+      const csv = historyToCSV(entries).split('\n');
+      expect(csv[0]).toEqual('blockNumber,txHash,kind,amount,balance,memo');
+      expect(csv).toHaveLength(entries.length + 1);
+
+      const json = JSON.parse(historyToJSON(entries));
+      expect(json.at(-1)).toMatchObject({ kind: 'transfer_out', amount: `${-amount / 2n}` });
+    });
+
+    it('tells every kind of change to the private balance apart', async () => {
+      const owner = wallets[0].getAddress();
+      const [agent, recipient] = [wallets[1], wallets[2].getAddress()];
+      const part = amount / 4n;
+      const shieldManager = new ShieldManager(asset, wallets[0]);
+      const escrows = escrowClient.withWallet(wallets[0]);
+
+      await fixture.mintPublic(wallets[0], amount);
+      const { secretHash } = await shieldManager.shield(owner, amount);
+      tokenSim.shield(owner, owner, amount, secretHash.toBigInt(), 0n);
+      await history.sync();
+      await shieldManager.redeem(secretHash, owner);
+      tokenSim.redeemShield(owner, owner, amount, secretHash.toBigInt());
+      await history.sync();
+
+      await asset.withWallet(wallets[0]).methods.unshield(owner, owner, part, 0).send().wait();
+      tokenSim.unshield(owner, owner, owner, part, 0n);
+      await asset.withWallet(wallets[0]).methods.burn(owner, part, 0).send().wait();
+      tokenSim.burn(owner, owner, part, 0n);
+      await history.sync();
+
+      const refunded = await escrows.escrow(owner, agent.getAddress(), part, BigInt(await pxe.getBlockNumber()) + 3n);
+      replayEscrow(owner, refunded);
+      const settled = await escrows.escrow(owner, agent.getAddress(), part, FAR_EXPIRY);
+      replayEscrow(owner, settled);
+      await history.sync();
+
+      await escrowClient.withWallet(agent).settle(agent.getAddress(), recipient, settled.randomness);
+      tokenSim.settleEscrow(agent.getAddress(), agent.getAddress(), recipient, settled.randomness.toBigInt(), 0n);
+      // Every mined tx advances the chain by one block
+      while (BigInt(await pxe.getBlockNumber()) < refunded.expiry) {
+        await fixture.mintPublic(wallets[0], 1n);
+      }
+      const refund = await escrows.refund(owner, refunded.randomness);
+      tokenSim.blockNumber = refund.blockNumber!;
+      tokenSim.refundEscrow(owner, owner, refunded.randomness.toBigInt(), 0n);
+      await history.sync();
+
+      await new NoteMaintenance(asset, pxe).withWallet(wallets[0]).merge(owner);
+      tokenSim.mergeNotes(owner, owner, 0n);
+      await history.sync();
+
+      const entries = await history.getEntries();
+      expect(entries.slice(-8)).toMatchObject([
+        { kind: 'shield', amount },
+        { kind: 'unshield', amount: -part },
+        { kind: 'burn', amount: -part },
+        { kind: 'escrow', amount: -part },
+        { kind: 'escrow', amount: -part },
+        { kind: 'settlement', amount: 0n },
+        { kind: 'refund', amount: part },
+        { kind: 'merge', amount: 0n },
+      ]);
+      expect(entries.at(-1)!.balance).toEqual(await asset.methods.balance_of_private(owner).view());
+    });
+  });
+
+  describe('Note merging', () => {
+    const amount = 10n;
+
+    let noteMaintenance: NoteMaintenance;
+
+    beforeAll(async () => {
+      noteMaintenance = new NoteMaintenance(asset, pxe).withWallet(wallets[2]);
+      // one tx creating several notes for the same owner
+      const payments = [1n, 2n, 3n, 4n].map(i => ({ recipient: wallets[2].getAddress(), amount: amount * i }));
+      await fixture.mintPrivate(wallets[0], amount * 10n);
+      await batchTransfer(asset.withWallet(wallets[0]), wallets[0].getAddress(), payments);
+      tokenSim.batchTransfer(wallets[0].getAddress(), wallets[0].getAddress(), payments, 0n);
+    });
+
+    it('merges the notes of the owner into one', async () => {
+      const owner = wallets[2].getAddress();
+      const balance = await asset.methods.balance_of_private(owner).view();
+      expect(await noteMaintenance.getNoteCount(owner)).toBeGreaterThanOrEqual(4);
+
+      await noteMaintenance.merge(owner);
+      tokenSim.mergeNotes(owner, owner, 0n);
+
+      expect(await noteMaintenance.getNoteAmounts(owner)).toEqual([balance]);
+      expect(await asset.methods.balance_of_private(owner).view()).toEqual(balance);
+    });
+
+    it('does not merge when a transfer can read every note', async () => {
+      expect(await noteMaintenance.prepareTransfer(wallets[2].getAddress(), amount)).toEqual(0);
+    });
+
+    it('reverts when merging the notes of another account without approval', async () => {
+      const tx = asset.withWallet(wallets[1]).methods.merge_notes(wallets[2].getAddress(), 0);
+      await expectRevert(tx.simulate(), 'AUTHWIT_NOT_FOUND');
+    });
+
+    it('merges the notes of another account with an authwit', async () => {
+      const owner = wallets[2].getAddress();
+      const balance = await asset.methods.balance_of_private(owner).view();
+
+      const { nonce } = await authWits.authorizeMergeNotes(wallets[2], wallets[1]);
+      await noteMaintenance.withWallet(wallets[1]).merge(owner, nonce);
+      tokenSim.addAuthWit(owner, wallets[1].getAddress(), { name: 'merge_notes', args: [owner, nonce.toBigInt()] });
+      tokenSim.mergeNotes(wallets[1].getAddress(), owner, nonce.toBigInt());
+
+      expect(await noteMaintenance.getNoteAmounts(owner)).toEqual([balance]);
+    });
+
+    it('merges a balance spread over more notes than a transfer reads', async () => {
+      const owner = wallets[2].getAddress();
+      // enough notes to need more than one merge
+      const payments = Array.from({ length: 2 * MAX_NOTES_PER_CALL }, () => ({ recipient: owner, amount }));
+      await fixture.mintPrivate(wallets[0], amount * BigInt(payments.length));
+      const from = wallets[0].getAddress();
+      await batchTransfer(asset.withWallet(wallets[0]), from, payments);
+      chunkPayments(payments).forEach(chunk => tokenSim.batchTransfer(from, from, chunk, 0n));
+
+      const balance = await asset.methods.balance_of_private(owner).view();
+      expect(await noteMaintenance.getNoteCount(owner)).toBeGreaterThan(2 * MAX_NOTES_PER_CALL);
+
+      const merges = await noteMaintenance.prepareTransfer(owner, balance);
+      expect(merges).toBeGreaterThan(1);
+      for (let i = 0; i < merges; i++) {
+        tokenSim.mergeNotes(owner, owner, 0n);
+      }
+
+      expect(await noteMaintenance.getNoteCount(owner)).toBeLessThanOrEqual(MAX_NOTES_PER_CALL);
+      expect(await asset.methods.balance_of_private(owner).view()).toEqual(balance);
+
+      await asset.withWallet(wallets[2]).methods.transfer(owner, wallets[1].getAddress(), balance, 0).send().wait();
+      tokenSim.transfer(owner, owner, wallets[1].getAddress(), balance, 0n);
+    });
+  });
+
+  describe('Public allowances', () => {
+    const mintAmount = 1000n;
+    const allowance = 100n;
+
+    let owner: AztecAddress;
+    let spender: AztecAddress;
+    let recipient: AztecAddress;
+
+    beforeAll(async () => {
+      [owner, spender, recipient] = wallets.map(w => w.getAddress());
+      await fixture.mintPublic(wallets[0], mintAmount);
+    });
+
+    it('approves a spender', async () => {
+      await approvePublic(asset.withWallet(wallets[0]), spender, allowance);
+      tokenSim.approvePublic(owner, spender, allowance);
+
+      expect(await allowancePublic(asset, owner, spender)).toEqual(allowance);
+    });
+
+    it('transfers from the owner and decreases the allowance', async () => {
+      const amount = allowance / 2n;
+      const receipt = await transferFromPublic(asset.withWallet(wallets[1]), owner, recipient, amount);
+      expect(receipt.status).toBe(TxStatus.MINED);
+      tokenSim.transferFromPublic(spender, owner, recipient, amount);
+
+      expect(await allowancePublic(asset, owner, spender)).toEqual(allowance - amount);
+    });
+
+    it('reverts when transferring more than the allowance', async () => {
+      const tx = asset.withWallet(wallets[1]).methods.transfer_from_public(owner, recipient, allowance);
+      await expectRevert(tx.simulate(), 'INSUFFICIENT_ALLOWANCE');
+    });
+
+    it('reverts when transferring without an allowance', async () => {
+      const tx = asset.withWallet(wallets[2]).methods.transfer_from_public(owner, recipient, 1n);
+      await expectRevert(tx.simulate(), 'INSUFFICIENT_ALLOWANCE');
+    });
+
+    it('revokes the allowance', async () => {
+      await revokePublic(asset.withWallet(wallets[0]), spender);
+      tokenSim.approvePublic(owner, spender, 0n);
+
+      const tx = asset.withWallet(wallets[1]).methods.transfer_from_public(owner, recipient, 1n);
+      await expectRevert(tx.simulate(), 'INSUFFICIENT_ALLOWANCE');
+    });
+
+    it('increases and decreases the allowance', async () => {
+      await increaseAllowancePublic(asset.withWallet(wallets[0]), spender, allowance);
+      tokenSim.increaseAllowancePublic(owner, spender, allowance);
+      await decreaseAllowancePublic(asset.withWallet(wallets[0]), spender, allowance / 4n);
+      tokenSim.decreaseAllowancePublic(owner, spender, allowance / 4n);
+
+      expect(await allowancePublic(asset, owner, spender)).toEqual(allowance - allowance / 4n);
+
+      const tx = asset.withWallet(wallets[0]).methods.decrease_allowance_public(spender, allowance);
+      await expectRevert(tx.simulate(), 'INSUFFICIENT_ALLOWANCE');
+    });
+  });
+
+  describe('Public authwits', () => {
+    const amount = 10n;
+
+    beforeAll(async () => {
+      await fixture.mintPublic(wallets[0], amount);
+    });
+
+    it('reverts once the approval is cancelled', async () => {
+      const authorization = await authWits.authorizeTransferPublic(
+        wallets[0],
+        wallets[1],
+        wallets[2].getAddress(),
+        amount,
+      );
+      await authWits.cancel(wallets[0], authorization);
+
+      await expectRevert(authorization.action.simulate(), 'UNAUTHORIZED');
+    });
+
+    it('transfers on behalf of another user', async () => {
+      const authorization = await authWits.authorizeTransferPublic(
+        wallets[0],
+        wallets[1],
+        wallets[2].getAddress(),
+        amount,
+      );
+
+      const receipt = await authorization.action.send().wait();
+      expect(receipt.status).toBe(TxStatus.MINED);
+      const [from, caller] = [wallets[0].getAddress(), wallets[1].getAddress()];
+      const args = [from, wallets[2].getAddress(), amount, authorization.nonce.toBigInt()] as const;
+      tokenSim.addAuthWit(from, caller, { name: 'transfer_public', args: [...args] });
+      tokenSim.transferPublic(caller, ...args);
+    });
+  });
+
+  describe('Admin handover', () => {
+    it('reverts when the caller is not admin', async () => {
+      const tx = asset.withWallet(wallets[1]).methods.propose_admin(wallets[1].getAddress());
+      await expectRevert(tx.simulate(), 'NOT_ADMIN');
+    });
+
+    it('proposes a new admin', async () => {
+      await proposeAdmin(asset.withWallet(wallets[0]), wallets[1].getAddress());
+      tokenSim.proposeAdmin(wallets[0].getAddress(), wallets[1].getAddress());
+
+      expect(await getPendingAdmin(asset)).toEqual(wallets[1].getAddress());
+      expect(await getAdmin(asset)).toEqual(wallets[0].getAddress());
+    });
+
+    it('reverts when the caller is not the pending admin', async () => {
+      const tx = asset.withWallet(wallets[2]).methods.accept_admin();
+      await expectRevert(tx.simulate(), 'NOT_PENDING_ADMIN');
+    });
+
+    it('hands over the admin role once accepted', async () => {
+      await acceptAdmin(asset.withWallet(wallets[1]));
+      tokenSim.acceptAdmin(wallets[1].getAddress());
+
+      expect(await getAdmin(asset)).toEqual(wallets[1].getAddress());
+      expect(await getPendingAdmin(asset)).toEqual(ADDRESS_ZERO);
+    });
+
+    it('hands the admin role back', async () => {
+      await proposeAdmin(asset.withWallet(wallets[1]), wallets[0].getAddress());
+      tokenSim.proposeAdmin(wallets[1].getAddress(), wallets[0].getAddress());
+      await acceptAdmin(asset.withWallet(wallets[0]));
+      tokenSim.acceptAdmin(wallets[0].getAddress());
+
+      expect(await getAdmin(asset)).toEqual(wallets[0].getAddress());
+    });
+  });
+
+  describe('Minter enumeration', () => {
+    beforeAll(async () => {
+      await fixture.reset();
+      useToken();
+    });
+
+    it('rebuilds the minters from the set_minter history', async () => {
+      const admin = asset.withWallet(wallets[0]);
+      const setMinter = async (minter: AztecAddress, approve: boolean) => {
+        await admin.methods.set_minter(minter, approve).send().wait();
+        tokenSim.setMinter(wallets[0].getAddress(), minter, approve);
+      };
+      await setMinter(wallets[1].getAddress(), true);
+      await setMinter(wallets[2].getAddress(), true);
+      await setMinter(wallets[1].getAddress(), false);
+
+      const minters = await getMinters(pxe, asset.address);
+      expect(minters).toEqual([wallets[0].getAddress(), wallets[2].getAddress()]);
+      for (const minter of minters) {
+        expect(await asset.methods.is_minter(minter).view()).toBe(true);
+      }
+    });
+  });
+
+  describe('Public events', () => {
+    const amount = 100n;
+
+    const getEvents = (txHash: TxHash) => getTokenEvents(pxe, asset.address, { txHash });
+
+    it('logs the initial admin and minter', async () => {
+      const events = await getTokenEvents(pxe, asset.address);
+      const [adminChanged] = filterTokenEvents(events, 'AdminChanged');
+      expect(adminChanged).toMatchObject({ previousAdmin: ADDRESS_ZERO, admin: wallets[0].getAddress() });
+      const [minterChanged] = filterTokenEvents(events, 'MinterChanged');
+      expect(minterChanged).toMatchObject({ minter: wallets[0].getAddress(), approved: true });
+    });
+
+    it('logs public mints, transfers and burns', async () => {
+      const [minter, alice, bob] = wallets.map(w => w.getAddress());
+
+      const mint = await asset.withWallet(wallets[0]).methods.mint_public(alice, amount).send().wait();
+      tokenSim.mintPublic(minter, alice, amount);
+      expect(await getEvents(mint.txHash)).toMatchObject([{ name: 'Mint', minter, to: alice, amount }]);
+
+      const transfer = await asset.withWallet(wallets[1]).methods.transfer_public(alice, bob, amount, 0).send().wait();
+      tokenSim.transferPublic(alice, alice, bob, amount, 0n);
+      expect(await getEvents(transfer.txHash)).toMatchObject([{ name: 'Transfer', from: alice, to: bob, amount }]);
+
+      const burn = await asset.withWallet(wallets[2]).methods.burn_public(bob, amount, 0).send().wait();
+      tokenSim.burnPublic(bob, bob, amount, 0n);
+      expect(await getEvents(burn.txHash)).toMatchObject([{ name: 'Burn', from: bob, amount }]);
+    });
+
+    it('logs shields with the zero address as private party', async () => {
+      const owner = wallets[0].getAddress();
+      await fixture.mintPublic(wallets[0], amount);
+
+      const [shieldHash, mintHash] = [Fr.random(), Fr.random()];
+
+      const receipt = await asset.withWallet(wallets[0]).methods.shield(owner, amount, shieldHash, 0).send().wait();
+      tokenSim.shield(owner, owner, amount, shieldHash.toBigInt(), 0n);
+      expect(await getEvents(receipt.txHash)).toMatchObject([{ name: 'Shield', from: owner, amount }]);
+
+      const mint = await asset.withWallet(wallets[0]).methods.mint_private(amount, mintHash).send().wait();
+      tokenSim.mintPrivate(owner, amount, mintHash.toBigInt());
+      expect(await getEvents(mint.txHash)).toMatchObject([{ name: 'Mint', minter: owner, to: ADDRESS_ZERO, amount }]);
+    });
+
+    it('logs role changes', async () => {
+      const admin = asset.withWallet(wallets[0]);
+      const receipt = await admin.methods.set_minter(wallets[1].getAddress(), false).send().wait();
+      tokenSim.setMinter(wallets[0].getAddress(), wallets[1].getAddress(), false);
+      expect(await getEvents(receipt.txHash)).toMatchObject([
+        { name: 'MinterChanged', minter: wallets[1].getAddress(), approved: false },
+      ]);
+    });
+
+    it('logs admin proposals', async () => {
+      const admin = asset.withWallet(wallets[0]);
+      const proposal = await admin.methods.propose_admin(wallets[1].getAddress()).send().wait();
+      tokenSim.proposeAdmin(wallets[0].getAddress(), wallets[1].getAddress());
+      expect(await getEvents(proposal.txHash)).toMatchObject([
+        { name: 'AdminProposed', admin: wallets[0].getAddress(), pendingAdmin: wallets[1].getAddress() },
+      ]);
+
+      const cancellation = await admin.methods.propose_admin(ADDRESS_ZERO).send().wait();
+      tokenSim.proposeAdmin(wallets[0].getAddress(), ADDRESS_ZERO);
+      expect(await getEvents(cancellation.txHash)).toMatchObject([
+        { name: 'AdminProposed', admin: wallets[0].getAddress(), pendingAdmin: ADDRESS_ZERO },
+      ]);
+    });
+
+    it('logs mint quota changes', async () => {
+      const admin = asset.withWallet(wallets[0]);
+      const minter = wallets[1].getAddress();
+
+      const set = await admin.methods.set_mint_quota(minter, amount).send().wait();
+      tokenSim.setMintQuota(wallets[0].getAddress(), minter, amount);
+      expect(await getEvents(set.txHash)).toMatchObject([{ name: 'MintQuotaSet', minter, quota: amount }]);
+
+      const removal = await admin.methods.remove_mint_quota(minter).send().wait();
+      tokenSim.removeMintQuota(wallets[0].getAddress(), minter);
+      expect(await getEvents(removal.txHash)).toMatchObject([{ name: 'MintQuotaRemoved', minter }]);
+    });
+  });
+
+  describe('Pause', () => {
+    const amount = 10n;
+
+    let admin: AccountWalletWithPrivateKey;
+    let user: AztecAddress;
+    let escrow: Escrow;
+    let secret: Fr;
+
+    beforeAll(async () => {
+      await fixture.reset();
+      useToken();
+      admin = wallets[0];
+      user = wallets[1].getAddress();
+      await fixture.mintPublic(admin, amount, admin);
+      await fixture.mintPrivate(admin, amount * 2n, admin);
+
+      escrow = await escrowClient.withWallet(admin).escrow(admin.getAddress(), admin.getAddress(), amount, 0n);
+      replayEscrow(admin.getAddress(), escrow);
+
+      secret = Fr.random();
+      const secretHash = computeMessageSecretHash(secret);
+      const receipt = await asset.withWallet(admin).methods.mint_private(amount, secretHash).send().wait();
+      tokenSim.mintPrivate(admin.getAddress(), amount, secretHash.toBigInt());
+      await addPendingShieldNoteToPXE(admin, amount, secretHash, receipt.txHash);
+    });
+
+    it('reverts when the caller is not admin', async () => {
+      const tx = asset.withWallet(wallets[1]).methods.set_paused(true);
+      await expectRevert(tx.simulate(), 'NOT_ADMIN');
+    });
+
+    it('pauses the token', async () => {
+      await pause(asset.withWallet(admin));
+      tokenSim.setPaused(admin.getAddress(), true);
+
+      expect(await isPaused(asset)).toBe(true);
+    });
+
+    it('rejects every state-changing function while paused', async () => {
+      const methods = asset.withWallet(admin).methods;
+      const from = admin.getAddress();
+      const secretHash = computeMessageSecretHash(Fr.random());
+      const recipients = [user, ADDRESS_ZERO, ADDRESS_ZERO, ADDRESS_ZERO];
+      const amounts = [1n, 0n, 0n, 0n];
+
+      const calls: [string, ContractFunctionInteraction][] = [
+        ['mint_public', methods.mint_public(user, amount)],
+        ['mint_private', methods.mint_private(amount, secretHash)],
+        ['shield', methods.shield(from, amount, secretHash, 0)],
+        ['transfer_public', methods.transfer_public(from, user, amount, 0)],
+        ['transfer_from_public', methods.transfer_from_public(from, user, amount)],
+        ['approve_public', methods.approve_public(user, amount)],
+        ['increase_allowance_public', methods.increase_allowance_public(user, amount)],
+        ['burn_public', methods.burn_public(from, amount, 0)],
+        ['redeem_shield', methods.redeem_shield(from, amount, secret)],
+        ['cancel_shield', methods.cancel_shield(amount, secret)],
+        ['reclaim_shield', methods.reclaim_shield(amount, secretHash)],
+        ['unshield', methods.unshield(from, user, amount, 0)],
+        ['shield_private', methods.shield_private(from, user, amount, 0)],
+        ['transfer', methods.transfer(from, user, amount, 0)],
+        ['transfer_with_memo', methods.transfer_with_memo(from, user, amount, 1n, 0)],
+        ['merge_notes', methods.merge_notes(from, 0)],
+        ['batch_transfer', methods.batch_transfer(from, recipients, amounts, 0)],
+        ['batch_transfer_public', methods.batch_transfer_public(from, recipients, amounts, 0)],
+        ['burn', methods.burn(from, amount, 0)],
+        ['escrow', methods.escrow(from, user, amount, FAR_EXPIRY, 0)],
+        ['settle_escrow', methods.settle_escrow(from, user, escrow.randomness, 0)],
+        ['settle_escrow_split', methods.settle_escrow_split(from, recipients, amounts, escrow.randomness, 0)],
+        ['refund_escrow', methods.refund_escrow(from, escrow.randomness, 0)],
+      ];
+
+      for (const [name, tx] of calls) {
+        logger(`Checking ${name} reverts while paused`);
+        await expectRevert(tx.simulate(), 'PAUSED');
+      }
+    });
+
+    it('still lets allowances be revoked while paused', async () => {
+      await revokePublic(asset.withWallet(admin), user);
+      tokenSim.approvePublic(admin.getAddress(), user, 0n);
+
+      expect(await allowancePublic(asset, admin.getAddress(), user)).toEqual(0n);
+    });
+
+    it('unpauses the token', async () => {
+      await unpause(asset.withWallet(admin));
+      tokenSim.setPaused(admin.getAddress(), false);
+
+      expect(await isPaused(asset)).toBe(false);
+
+      const receipt = await asset
+        .withWallet(admin)
+        .methods.redeem_shield(admin.getAddress(), amount, secret)
+        .send()
+        .wait();
+      expect(receipt.status).toBe(TxStatus.MINED);
+      const secretHash = computeMessageSecretHash(secret).toBigInt();
+      tokenSim.redeemShield(admin.getAddress(), admin.getAddress(), amount, secretHash);
+    });
+  });
+
+  describe('Supply cap and mint quotas', () => {
+    const quota = 100n;
+
+    let minter: AccountWalletWithPrivateKey;
+
+    beforeAll(async () => {
+      await fixture.reset();
+      useToken();
+      minter = wallets[1];
+      await asset.withWallet(wallets[0]).methods.set_minter(minter.getAddress(), true).send().wait();
+      tokenSim.setMinter(wallets[0].getAddress(), minter.getAddress(), true);
+    });
+
+    it('reverts when minting above the max supply', async () => {
+      const amount = MAX_SUPPLY - tokenSim.totalSupply + 1n;
+      const tx = asset.withWallet(minter).methods.mint_public(minter.getAddress(), amount);
+      await expectRevert(tx.simulate(), 'MAX_SUPPLY_EXCEEDED');
+    });
+
+    it('reverts when setting a quota and the caller is not admin', async () => {
+      const tx = asset.withWallet(minter).methods.set_mint_quota(minter.getAddress(), quota);
+      await expectRevert(tx.simulate(), 'NOT_ADMIN');
+    });
+
+    it('decreases the quota with each mint', async () => {
+      await setMintQuota(asset.withWallet(wallets[0]), minter.getAddress(), quota);
+      tokenSim.setMintQuota(wallets[0].getAddress(), minter.getAddress(), quota);
+
+      await fixture.mintPublic(minter, quota / 2n, minter);
+      await fixture.mintPrivate(minter, quota / 4n, minter);
+
+      expect(await getRemainingMintQuota(asset, minter.getAddress())).toEqual(quota / 4n);
+    });
+
+    it('reverts when minting above the quota', async () => {
+      const amount = quota / 4n + 1n;
+      const publicTx = asset.withWallet(minter).methods.mint_public(minter.getAddress(), amount);
+      await expectRevert(publicTx.simulate(), 'MINT_QUOTA_EXCEEDED');
+
+      const privateTx = asset.withWallet(minter).methods.mint_private(amount, Fr.random());
+      await expectRevert(privateTx.simulate(), 'MINT_QUOTA_EXCEEDED');
+    });
+
+    it('mints above the quota once removed', async () => {
+      await removeMintQuota(asset.withWallet(wallets[0]), minter.getAddress());
+      tokenSim.removeMintQuota(wallets[0].getAddress(), minter.getAddress());
+
+      await fixture.mintPublic(minter, quota, minter);
+      expect(await getRemainingMintQuota(asset, minter.getAddress())).toEqual(MAX_SUPPLY - tokenSim.totalSupply);
+    });
+  });
+
+  describe('Indexer', () => {
+    let store: InMemoryIndexerStore;
+    let indexer: TokenIndexer;
+
+    beforeAll(async () => {
+      store = new InMemoryIndexerStore();
+      indexer = await new TokenIndexer(pxe, asset.address, { store, logger }).init();
+      await indexer.sync();
+    });
+
+    it('matches the simulated public state', async () => {
+      expect(indexer.getTotalSupply()).toEqual(tokenSim.totalSupply);
+      for (const wallet of wallets) {
+        expect(indexer.getPublicBalance(wallet.getAddress())).toEqual(tokenSim.balanceOfPublic(wallet.getAddress()));
+      }
+      expect(indexer.getMinters()).toEqual(await getMinters(pxe, asset.address));
+      expect(indexer.getAdminHistory().at(-1)?.admin).toEqual(await getAdmin(asset));
+      expect(indexer.isPaused()).toEqual(await isPaused(asset));
+    });
+
+    it('resumes from the checkpoint after a restart', async () => {
+      const amount = 10n;
+      const checkpoint = indexer.checkpoint;
+      await fixture.mintPublic(wallets[1], amount);
+
+      const restarted = await new TokenIndexer(pxe, asset.address, { store, logger }).init();
+      expect(restarted.checkpoint).toEqual(checkpoint);
+      expect(await restarted.sync()).toEqual((await pxe.getBlockNumber()) - checkpoint);
+      expect(restarted.getPublicBalance(wallets[1].getAddress())).toEqual(
+        tokenSim.balanceOfPublic(wallets[1].getAddress()),
+      );
+      expect(restarted.getTotalSupply()).toEqual(tokenSim.totalSupply);
+    });
+
+    it('serves the state over HTTP', async () => {
+      await indexer.sync();
+      const server = createIndexerServer(indexer).listen(0);
+      try {
+        const { port } = server.address() as { port: number };
+        const get = async (path: string) => (await fetch(`http://localhost:${port}${path}`)).json();
+
+        const address = wallets[1].getAddress().toString();
+        expect(await get(`/balances/${address}`)).toEqual({
+          address,
+          balance: `${tokenSim.balanceOfPublic(wallets[1].getAddress())}`,
+        });
+        expect(await get('/status')).toMatchObject({
+          checkpoint: indexer.checkpoint,
+          totalSupply: `${tokenSim.totalSupply}`,
+        });
+        expect(await get('/minters')).toEqual(indexer.getMinters().map(minter => minter.toString()));
+      } finally {
+        server.close();
+      }
+    });
+  });
+
+  describe('CLI', () => {
+    const cli = (...args: string[]) => runTokenCli([...args, '--token', asset.address.toString(), '--json']);
+
+    it('prints balances and supply', async () => {
+      const address = wallets[1].getAddress();
+      expect(JSON.parse(await cli('balance', address.toString()))).toMatchObject({
+        address: address.toString(),
+        public: { raw: `${tokenSim.balanceOfPublic(address)}` },
+        private: { raw: `${tokenSim.balanceOfPrivate(address)}` },
+      });
+      expect(JSON.parse(await cli('supply'))).toMatchObject({ totalSupply: { raw: `${tokenSim.totalSupply}` } });
+    });
+
+    it('transfers public balance from the sender', async () => {
+      const amount = 1n;
+      const { decimals } = await getTokenMetadata(asset);
+      const to = wallets[1].getAddress();
+      const balance = await asset.methods.balance_of_public(to).view();
+
+      const output = await cli(
+        'transfer',
+        to.toString(),
+        formatAmount(amount, decimals),
+        '--public',
+        '--from',
+        wallets[0].getAddress().toString(),
+      );
+      tokenSim.transferPublic(wallets[0].getAddress(), wallets[0].getAddress(), to, amount, 0n);
+
+      const { txHash } = JSON.parse(output);
+      expect((await pxe.getTxReceipt(TxHash.fromString(txHash))).status).toBe(TxStatus.MINED);
+      expect(await asset.methods.balance_of_public(to).view()).toEqual(balance + amount);
+    });
+
+    it('rejects invalid command lines', async () => {
+      await expect(cli('transfer', wallets[1].getAddress().toString())).rejects.toThrow('Usage: token-cli transfer');
+      await expect(cli('approve')).rejects.toThrow('Unknown command "approve"');
+      await expect(cli('deploy', 'Token', 'TKN', 'six', '1000')).rejects.toThrow('Invalid decimals "six"');
+      await expect(cli('escrow', wallets[1].getAddress().toString(), '1', 'soon')).rejects.toThrow(
+        'Invalid expiry block "soon"',
+      );
+    });
+  });
+
+  describe('Simulation', () => {
+    const simulate = (functionName: string, args: { [name: string]: any }) =>
+      simulateContractFunction(asset.address, asset.artifact, functionName, args, pxe, wallets[0].getCompleteAddress());
+    const toArg = (address: AztecAddress) => ({ address: address.toString() });
+
+    it('previews the balance changes of a call without sending it', async () => {
+      const amount = 10n;
+      await fixture.mintPublic(wallets[0], amount);
+      const [from, to] = [wallets[0].getAddress(), wallets[1].getAddress()];
+      const [fromBalance, toBalance] = [tokenSim.balanceOfPublic(from), tokenSim.balanceOfPublic(to)];
+
+      const simulation = await simulate('transfer_public', { from: toArg(from), to: toArg(to), amount, nonce: 0n });
+      expect(simulation).toMatchObject({ success: true, createdNotes: 0, nullifiedNotes: 0, spentNotes: [] });
+      expect(simulation.balanceChanges).toEqual([
+        { owner: from, kind: 'public', amount: -amount, before: fromBalance, after: fromBalance - amount },
+        { owner: to, kind: 'public', amount, before: toBalance, after: toBalance + amount },
+      ]);
+      expect(await asset.methods.balance_of_public(from).view()).toEqual(fromBalance);
+    });
+
+    it('lists the notes of the sender that a private transfer spends', async () => {
+      const amount = 10n;
+      await fixture.mintPrivate(wallets[0], amount);
+      const from = wallets[0].getAddress();
+
+      const simulation = await simulate('transfer', { from: toArg(from), to: toArg(from), amount, nonce: 0n });
+      expect(simulation.success).toBe(true);
+      expect(simulation.createdNotes).toBeGreaterThan(0);
+      expect(simulation.nullifiedNotes).toBeGreaterThan(0);
+      expect(simulation.spentNotes).toHaveLength(simulation.nullifiedNotes);
+      expect(simulation.spentNotes.every(note => note.type === 'balance')).toBe(true);
+      expect(simulation.balanceChanges).toEqual([]);
+    });
+
+    it('decodes the reason of a revert', async () => {
+      const [from, to] = [wallets[0].getAddress(), wallets[1].getAddress()];
+      const amount = tokenSim.balanceOfPrivate(from) + 1n;
+
+      expect(await simulate('transfer', { from: toArg(from), to: toArg(to), amount, nonce: 0n })).toMatchObject({
+        success: false,
+        errorCode: 'INSUFFICIENT_BALANCE',
+      });
+      expect(await simulate('transfer', { from: toArg(from), to: toArg(to), amount: 1n, nonce: 1n })).toMatchObject({
+        success: false,
+        errorCode: 'INVALID_NONCE',
+      });
+    });
+  });
+
+  describe('Differential fuzzing', () => {
+    // the same sequences run every time, FUZZ_SEED=random explores new ones and FUZZ_SEED replays a failed run
+    const { FUZZ_SEED = '0', FUZZ_RUNS = '2', FUZZ_LENGTH = '12' } = process.env;
+
+    it(
+      'matches the simulator on random sequences of ops',
+      async () => {
+        const seed = FUZZ_SEED === 'random' ? Math.floor(Math.random() * 2 ** 32) : Number(FUZZ_SEED);
+        logger(`Fuzzing with FUZZ_SEED=${seed}`);
+        await new TokenFuzzer(sandbox, logger).check({ seed, runs: Number(FUZZ_RUNS), length: Number(FUZZ_LENGTH) });
+      },
+      60 * TIMEOUT,
+    );
+  });
+
   const addPendingShieldNoteToPXE = async (
     account: AccountWalletWithPrivateKey,
     amount: bigint,
@@ -400,53 +1749,4 @@ describe('e2e_token_contract', () => {
       )
     );
   };
-
-  const mintPublicTokens = async (
-    account: AccountWalletWithPrivateKey,
-    minter: AccountWalletWithPrivateKey, 
-    amount: bigint
-  ) => {
-    const tx = asset
-      .withWallet(minter)
-      .methods.mint_public(account.getAddress(), amount)
-      .send();
-    const receipt = await tx.wait();
-    expect(receipt.status).toBe(TxStatus.MINED);
-    tokenSim.mintPublic(account.getAddress(), amount);
-  };
-
-  const mintTokenFor = async (
-    account: AccountWalletWithPrivateKey,
-    minter: AccountWalletWithPrivateKey,
-    amount: bigint
-  ) => {
-    // Mint private tokens
-    const secret = Fr.random();
-    const secretHash = await computeMessageSecretHash(secret);
-
-    const receipt = await asset
-      .withWallet(minter)
-      .methods.mint_private(amount, secretHash)
-      .send()
-      .wait();
-
-    tokenSim.mintPrivate(amount);
-  
-    await addPendingShieldNoteToPXE(minter, amount, secretHash, receipt.txHash);
-  
-    await asset
-      .withWallet(minter)
-      .methods.redeem_shield(account.getAddress(), amount, secret)
-      .send()
-      .wait();
-
-    tokenSim.redeemShield(account.getAddress(), amount);
-  };
-
-  const approveAction = async (action: ContractFunctionInteraction, sender: AccountWalletWithPrivateKey, approver: AccountWalletWithPrivateKey, nonce: Fr) => {
-    const messageHash = await computeAuthWitMessageHash(sender.getAddress(), action.request());
-    const witness = await approver.createAuthWitness(messageHash);
-    await sender.addAuthWitness(witness);
-    return nonce;
-  };
 });
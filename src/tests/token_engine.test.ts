@@ -0,0 +1,228 @@
+import { TokenErrorCode } from '../scripts/errors.js';
+import { TokenEngine, TokenEngineError } from '../scripts/token_engine.js';
+import { AztecAddress } from '@aztec/aztec.js';
+import { beforeEach, describe, expect, it } from '@jest/globals';
+
+// Runs without a sandbox, the engine only needs addresses.
+describe('TokenEngine', () => {
+  const [admin, alice, bob] = [1n, 2n, 3n].map(value => AztecAddress.fromBigInt(value));
+  const MAX_SUPPLY = 1_000n;
+  const SECRET_HASH = 42n;
+
+  let engine: TokenEngine;
+  let randomness: bigint;
+
+  const expectRevert = (call: () => unknown, code: TokenErrorCode) => {
+    expect(call).toThrow(TokenEngineError);
+    try {
+      call();
+    } catch (err) {
+      expect(err).toMatchObject({ code });
+    }
+  };
+
+  beforeEach(() => {
+    randomness = 0n;
+    engine = new TokenEngine({ admin, maxSupply: MAX_SUPPLY, randomness: () => ++randomness });
+  });
+
+  describe('Minting', () => {
+    it('mints up to the max supply', () => {
+      engine.mintPublic(admin, alice, 600n);
+      expectRevert(() => engine.mintPublic(admin, alice, 500n), 'MAX_SUPPLY_EXCEEDED');
+      expect(engine.balanceOfPublic(alice)).toEqual(600n);
+      expect(engine.totalSupply).toEqual(600n);
+    });
+
+    it('only lets minters mint', () => {
+      expectRevert(() => engine.mintPublic(alice, alice, 1n), 'NOT_MINTER');
+      expectRevert(() => engine.mintPrivate(alice, 1n, SECRET_HASH), 'NOT_MINTER');
+      expect(engine.remainingMintQuota(alice)).toEqual(0n);
+      engine.setMinter(admin, alice, true);
+      engine.mintPublic(alice, alice, 1n);
+      expectRevert(() => engine.setMinter(alice, bob, true), 'NOT_ADMIN');
+    });
+
+    it('enforces mint quotas', () => {
+      engine.setMintQuota(admin, admin, 10n);
+      engine.mintPublic(admin, alice, 6n);
+      expect(engine.remainingMintQuota(admin)).toEqual(4n);
+      expectRevert(() => engine.mintPublic(admin, alice, 5n), 'MINT_QUOTA_EXCEEDED');
+      engine.removeMintQuota(admin, admin);
+      expect(engine.remainingMintQuota(admin)).toEqual(MAX_SUPPLY - 6n);
+    });
+
+    it('rejects amounts that overflow a SafeU120', () => {
+      expectRevert(() => engine.mintPublic(admin, alice, 2n ** 120n), 'AMOUNT_TOO_LARGE');
+    });
+  });
+
+  describe('Shields', () => {
+    it('redeems a pending shield once', () => {
+      engine.mintPrivate(admin, 10n, SECRET_HASH);
+      expect(engine.getPendingShields()).toEqual([{ amount: 10n, secretHash: SECRET_HASH }]);
+      expectRevert(() => engine.redeemShield(bob, bob, 9n, SECRET_HASH), 'SHIELD_NOT_FOUND');
+
+      engine.redeemShield(bob, bob, 10n, SECRET_HASH);
+      expect(engine.balanceOfPrivate(bob)).toEqual(10n);
+      expectRevert(() => engine.redeemShield(bob, bob, 10n, SECRET_HASH), 'SHIELD_NOT_FOUND');
+    });
+
+    it('lets the shielder reclaim after the delay, and then not redeem', () => {
+      engine.mintPublic(admin, alice, 10n);
+      engine.shield(alice, alice, 10n, SECRET_HASH, 0n);
+      expect(engine.balanceOfPublic(alice)).toEqual(0n);
+
+      expectRevert(() => engine.reclaimShield(alice, 10n, SECRET_HASH), 'SHIELD_NOT_RECLAIMABLE');
+      engine.advanceBlocks(100);
+      expectRevert(() => engine.reclaimShield(bob, 10n, SECRET_HASH), 'NOT_SHIELDER');
+      engine.reclaimShield(alice, 10n, SECRET_HASH);
+
+      expect(engine.balanceOfPublic(alice)).toEqual(10n);
+      expectRevert(() => engine.redeemShield(alice, alice, 10n, SECRET_HASH), 'SHIELD_RECLAIMED');
+    });
+
+    it('only shields an amount and secret hash that no pending shield uses', () => {
+      engine.mintPublic(admin, alice, 20n);
+      engine.mintPrivate(admin, 10n, SECRET_HASH);
+      engine.mintPrivate(admin, 10n, SECRET_HASH);
+      expectRevert(() => engine.shield(alice, alice, 10n, SECRET_HASH, 0n), 'SHIELD_EXISTS');
+
+      engine.redeemShield(bob, bob, 10n, SECRET_HASH);
+      engine.redeemShield(bob, bob, 10n, SECRET_HASH);
+      expect(engine.balanceOfPrivate(bob)).toEqual(20n);
+
+      engine.shield(alice, alice, 10n, SECRET_HASH, 0n);
+      expectRevert(() => engine.shield(alice, alice, 10n, SECRET_HASH, 0n), 'SHIELD_EXISTS');
+      expectRevert(() => engine.mintPrivate(admin, 10n, SECRET_HASH), 'SHIELD_EXISTS');
+      engine.cancelShield(alice, 10n, SECRET_HASH);
+      engine.shield(alice, alice, 10n, SECRET_HASH, 0n);
+      expect(engine.balanceOfPublic(alice)).toEqual(10n);
+    });
+  });
+
+  describe('Transfers', () => {
+    beforeEach(() => {
+      engine.mintPublic(admin, alice, 100n);
+      engine.shieldPrivate(alice, alice, alice, 100n, 0n);
+    });
+
+    it('moves private balances and keeps the change as a note', () => {
+      engine.transfer(alice, alice, bob, 30n, 0n);
+      expect(engine.balanceOfPrivate(alice)).toEqual(70n);
+      expect(engine.getNotes(alice)).toEqual([70n]);
+      expect(engine.balanceOfPrivate(bob)).toEqual(30n);
+      expectRevert(() => engine.transfer(alice, alice, bob, 71n, 0n), 'INSUFFICIENT_BALANCE');
+    });
+
+    it('requires a zero nonce when acting for oneself', () => {
+      expectRevert(() => engine.transfer(alice, alice, bob, 1n, 1n), 'INVALID_NONCE');
+    });
+
+    it('requires an authwit when acting for someone else, usable once', () => {
+      const action = { name: 'transfer', args: [alice, bob, 10n, 7n] };
+      expectRevert(() => engine.transfer(bob, alice, bob, 10n, 7n), 'AUTHWIT_NOT_FOUND');
+
+      engine.addAuthWit(alice, bob, action);
+      engine.transfer(bob, alice, bob, 10n, 7n);
+      expect(engine.balanceOfPrivate(bob)).toEqual(10n);
+      expectRevert(() => engine.transfer(bob, alice, bob, 10n, 7n), 'AUTHWIT_NOT_FOUND');
+    });
+
+    it('reverts public calls without an approval in the account', () => {
+      expectRevert(() => engine.transferPublic(bob, alice, bob, 1n, 7n), 'UNAUTHORIZED');
+    });
+
+    it('takes an authwit for the memo transfer itself', () => {
+      engine.addAuthWit(alice, bob, { name: 'transfer', args: [alice, bob, 10n, 7n] });
+      expectRevert(() => engine.transferWithMemo(bob, alice, bob, 10n, 1n, 7n), 'AUTHWIT_NOT_FOUND');
+
+      engine.addAuthWit(alice, bob, { name: 'transfer_with_memo', args: [alice, bob, 10n, 1n, 7n] });
+      engine.transferWithMemo(bob, alice, bob, 10n, 1n, 7n);
+      expect(engine.balanceOfPrivate(bob)).toEqual(10n);
+    });
+
+    it('reverts public transfers above the balance with an underflow', () => {
+      expectRevert(() => engine.transferPublic(alice, alice, bob, 1n, 0n), 'UNDERFLOW');
+    });
+
+    it('leaves the state untouched when a call reverts', () => {
+      engine.setPaused(admin, true);
+      expectRevert(() => engine.transfer(alice, alice, bob, 10n, 0n), 'PAUSED');
+      expect(engine.getNotes(alice)).toEqual([100n]);
+      expect(engine.balanceOfPrivate(bob)).toEqual(0n);
+    });
+
+    it('burns from the private balance and the supply', () => {
+      engine.burn(alice, alice, 40n, 0n);
+      expect(engine.balanceOfPrivate(alice)).toEqual(60n);
+      expect(engine.totalSupply).toEqual(60n);
+    });
+  });
+
+  describe('Allowances', () => {
+    it('changes allowances relative to their value', () => {
+      engine.increaseAllowancePublic(alice, bob, 10n);
+      engine.increaseAllowancePublic(alice, bob, 5n);
+      engine.decreaseAllowancePublic(alice, bob, 3n);
+      expect(engine.allowancePublic(alice, bob)).toEqual(12n);
+      expectRevert(() => engine.decreaseAllowancePublic(alice, bob, 13n), 'INSUFFICIENT_ALLOWANCE');
+    });
+
+    it('only lowers allowances while paused', () => {
+      engine.approvePublic(alice, bob, 10n);
+      engine.setPaused(admin, true);
+      expectRevert(() => engine.approvePublic(alice, bob, 20n), 'PAUSED');
+      expectRevert(() => engine.increaseAllowancePublic(alice, bob, 1n), 'PAUSED');
+
+      engine.decreaseAllowancePublic(alice, bob, 4n);
+      expect(engine.allowancePublic(alice, bob)).toEqual(6n);
+      engine.approvePublic(alice, bob, 0n);
+      expect(engine.allowancePublic(alice, bob)).toEqual(0n);
+    });
+  });
+
+  describe('Escrows', () => {
+    beforeEach(() => {
+      engine.mintPublic(admin, alice, 100n);
+      engine.shieldPrivate(alice, alice, alice, 100n, 0n);
+    });
+
+    it('is settled by its owner only', () => {
+      const escrow = engine.escrow(alice, alice, bob, 50n, 10n, 0n);
+      expectRevert(() => engine.settleEscrow(alice, bob, alice, escrow, 0n), 'AUTHWIT_NOT_FOUND');
+      expectRevert(() => engine.settleEscrow(alice, alice, alice, escrow, 0n), 'ESCROW_NOT_FOUND');
+
+      engine.settleEscrow(bob, bob, bob, escrow, 0n);
+      expect(engine.balanceOfPrivate(bob)).toEqual(50n);
+      expect(engine.getEscrow(escrow)).toBeUndefined();
+    });
+
+    it('keeps the rest of a split settlement in escrow', () => {
+      const escrow = engine.escrow(alice, alice, bob, 50n, 10n, 0n);
+      expectRevert(
+        () => engine.settleEscrowSplit(bob, bob, [{ recipient: bob, amount: 51n }], escrow, 0n),
+        'INSUFFICIENT_ESCROW',
+      );
+
+      const remainder = engine.settleEscrowSplit(bob, bob, [{ recipient: bob, amount: 20n }], escrow, 0n);
+      expect(engine.getEscrow(remainder)).toMatchObject({ amount: 30n, owner: bob, depositor: alice, expiry: 10n });
+    });
+
+    it('is refunded to the depositor after expiry', () => {
+      const escrow = engine.escrow(alice, alice, bob, 50n, 10n, 0n);
+      expectRevert(() => engine.refundEscrow(alice, alice, escrow, 0n), 'ESCROW_NOT_EXPIRED');
+      engine.advanceBlocks(10);
+      engine.refundEscrow(alice, alice, escrow, 0n);
+      expect(engine.balanceOfPrivate(alice)).toEqual(100n);
+    });
+
+    it('takes the randomness of the notes when replaying mined calls', () => {
+      expect(engine.escrow(alice, alice, bob, 50n, 10n, 0n, 7n)).toEqual(7n);
+      const payouts = [{ recipient: bob, amount: 20n }];
+      expect(engine.settleEscrowSplit(bob, bob, payouts, 7n, 0n, 8n)).toEqual(8n);
+      expect(engine.getEscrow(8n)).toMatchObject({ amount: 30n, owner: bob });
+      expect(randomness).toEqual(0n);
+    });
+  });
+});
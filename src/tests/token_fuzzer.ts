@@ -0,0 +1,461 @@
+import { TokenContract } from '../contracts/artifacts/Token.js';
+import { TokenAuthWits } from '../scripts/authwit.js';
+import { EscrowClient } from '../scripts/escrow_client.js';
+import { ShieldManager } from '../scripts/shield_manager.js';
+import { TokenEngineError } from '../scripts/token_engine.js';
+import { assertMined } from '../scripts/util.js';
+import { SandboxFixture, TokenFixture } from './fixtures.js';
+import { TokenSimulator } from './token_simulator.js';
+import { AccountWalletWithPrivateKey, AztecAddress, DebugLogger, Fr } from '@aztec/aztec.js';
+
+// Accounts are indices into the wallets of the fuzzer, so that sequences can be printed and replayed.
+export type FuzzOp =
+  | { kind: 'mint_public'; minter: number; to: number; amount: bigint }
+  | { kind: 'mint_private'; minter: number; amount: bigint }
+  | { kind: 'transfer_public'; from: number; to: number; amount: bigint }
+  | { kind: 'transfer'; from: number; to: number; amount: bigint }
+  // sent by `caller` on behalf of `from`, with an authwit for `nonce` unless `authorized` is false
+  | DelegatedTransfer<'delegated_transfer'>
+  | DelegatedTransfer<'delegated_transfer_public'>
+  | { kind: 'shield'; from: number; amount: bigint }
+  // redeems the `shield`-th pending shield created so far, modulo their count
+  | { kind: 'redeem'; shield: number; to: number }
+  | { kind: 'unshield'; from: number; to: number; amount: bigint }
+  | { kind: 'burn'; from: number; amount: bigint }
+  | { kind: 'burn_public'; from: number; amount: bigint }
+  | { kind: 'escrow'; from: number; owner: number; amount: bigint }
+  // settles the `escrow`-th escrow created so far, modulo their count, sent by `caller`
+  | { kind: 'settle'; escrow: number; caller: number; recipient: number }
+  | { kind: 'shield_private'; from: number; to: number; amount: bigint };
+
+interface DelegatedTransfer<Kind extends string> {
+  kind: Kind;
+  caller: number;
+  from: number;
+  to: number;
+  amount: bigint;
+  nonce: bigint;
+  authorized: boolean;
+}
+
+export type FuzzOpKind = FuzzOp['kind'];
+
+// The first step at which the token and the simulator disagree, on the outcome of the op or on the state after it.
+export interface Divergence {
+  step: number;
+  op: FuzzOp;
+  reason: string;
+}
+
+export interface FuzzOptions {
+  seed: number;
+  // sequences to run, each one on a fresh token, with seeds `seed`, `seed + 1`...
+  runs: number;
+  // ops per sequence
+  length: number;
+  // replays allowed to shrink a diverging sequence, each one deploying a token
+  maxShrinkRuns: number;
+}
+
+const DEFAULT_OPTIONS: FuzzOptions = { seed: 0, runs: 1, length: 12, maxShrinkRuns: 40 };
+
+// Low enough for mints to hit the cap, and amounts to regularly exceed balances.
+const MAX_SUPPLY = 5_000n;
+const MAX_AMOUNT = 1_500n;
+
+// Escrows are never refunded during a sequence.
+const FAR_EXPIRY = 2n ** 64n;
+
+// mulberry32, so that a seed always generates the same sequence.
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const OP_KINDS: FuzzOpKind[] = [
+  'mint_public',
+  'mint_private',
+  'transfer_public',
+  'transfer',
+  'delegated_transfer',
+  'delegated_transfer_public',
+  'shield',
+  'redeem',
+  'unshield',
+  'burn',
+  'burn_public',
+  'escrow',
+  'settle',
+  'shield_private',
+];
+
+/**
+ * Generates `length` random ops across `accounts` accounts.
+ * Amounts are not bound to balances, so that a share of the ops is expected to fail.
+ */
+export function generateSequence(seed: number, length: number, accounts: number): FuzzOp[] {
+  const random = createRandom(seed);
+  const account = () => Math.floor(random() * accounts);
+  const amount = () => BigInt(Math.floor(random() * Number(MAX_AMOUNT))) + 1n;
+  // mints come first more often, so that the other ops have balances to move
+  const kind = (step: number) =>
+    step < 2 && random() < 0.8 ? 'mint_public' : OP_KINDS[Math.floor(random() * OP_KINDS.length)];
+
+  return Array.from({ length }, (_, step): FuzzOp => {
+    const opKind = kind(step);
+    switch (opKind) {
+      case 'mint_public':
+        // the deployer is the only minter, others are expected to fail
+        return { kind: opKind, minter: random() < 0.8 ? 0 : account(), to: account(), amount: amount() };
+      case 'mint_private':
+        return { kind: opKind, minter: random() < 0.8 ? 0 : account(), amount: amount() };
+      case 'transfer_public':
+      case 'transfer':
+      case 'unshield':
+      case 'shield_private':
+        return { kind: opKind, from: account(), to: account(), amount: amount() };
+      case 'delegated_transfer':
+      case 'delegated_transfer_public': {
+        const [caller, from, to] = [account(), account(), account()];
+        const nonce = BigInt(Math.floor(random() * 2 ** 32)) + 1n;
+        return { kind: opKind, caller, from, to, amount: amount(), nonce, authorized: random() < 0.8 };
+      }
+      case 'shield':
+      case 'burn':
+      case 'burn_public':
+        return { kind: opKind, from: account(), amount: amount() };
+      case 'redeem':
+        return { kind: opKind, shield: account(), to: account() };
+      case 'escrow':
+        return { kind: opKind, from: account(), owner: account(), amount: amount() };
+      case 'settle':
+        return { kind: opKind, escrow: account(), caller: account(), recipient: account() };
+    }
+  });
+}
+
+export function formatSequence(ops: FuzzOp[]) {
+  return ops
+    .map((op, step) => {
+      const args = Object.entries(op)
+        .filter(([key]) => key !== 'kind')
+        .map(([key, value]) => `${key}=${value}`);
+      return `${step}: ${op.kind}(${args.join(', ')})`;
+    })
+    .join('\n');
+}
+
+interface CreatedShield {
+  // the account whose manager holds the secret
+  holder: number;
+  secretHash: Fr;
+  amount: bigint;
+}
+
+interface CreatedEscrow {
+  owner: number;
+  randomness: Fr;
+}
+
+// What the token picked when mining an op, which the simulator needs to replay it.
+interface MinedOp {
+  secretHash?: Fr;
+  randomness?: Fr;
+}
+
+// The state of a sequence that the simulator doesn't track.
+interface RunState {
+  token: TokenContract;
+  sim: TokenSimulator;
+  authWits: TokenAuthWits;
+  shieldManagers: ShieldManager[];
+  escrowClient: EscrowClient;
+  // every shield and escrow created so far, whether spent or not
+  shields: CreatedShield[];
+  escrows: CreatedEscrow[];
+}
+
+/**
+ * Differential testing of the Token contract against `TokenSimulator`.
+ * Runs random sequences of ops on a fresh token, replaying every op on the simulator whether the token mined it or not:
+ * the engine must reject exactly the ops that reverted, and end up in the same state. Diverging sequences are shrunk
+ * to a minimal reproduction.
+ */
+export class TokenFuzzer {
+  private wallets: AccountWalletWithPrivateKey[];
+
+  constructor(private sandbox: SandboxFixture, private logger: DebugLogger) {
+    this.wallets = sandbox.wallets;
+  }
+
+  // Throws with the shrunk sequence and its seed on the first diverging sequence.
+  public async check(options: Partial<FuzzOptions> = {}) {
+    const { seed, runs, length, maxShrinkRuns } = { ...DEFAULT_OPTIONS, ...options };
+    for (let i = 0; i < runs; i++) {
+      const ops = generateSequence(seed + i, length, this.wallets.length);
+      this.logger(`Fuzzing seed ${seed + i}:\n${formatSequence(ops)}`);
+      const divergence = await this.run(ops);
+      if (divergence) {
+        const shrunk = await this.shrink(ops, divergence, maxShrinkRuns);
+        throw new Error(
+          `Token diverged from the simulator with seed ${seed + i}, at step ${shrunk.divergence.step} ` +
+            `(${shrunk.divergence.reason}) of:\n${formatSequence(shrunk.ops)}`,
+        );
+      }
+    }
+  }
+
+  // Runs `ops` on a fresh token, returning the first divergence if any.
+  public async run(ops: FuzzOp[]): Promise<Divergence | undefined> {
+    const state = await this.setup();
+    for (const [step, op] of ops.entries()) {
+      if (!this.hasTarget(op, state)) {
+        continue;
+      }
+      let mined: MinedOp | undefined;
+      try {
+        mined = await this.execute(op, state);
+      } catch (err) {
+        this.logger(`Step ${step} ${op.kind} failed: ${err}`);
+      }
+      try {
+        this.replay(op, state, mined);
+        if (!mined) {
+          return { step, op, reason: 'failed but the simulator succeeded' };
+        }
+      } catch (err) {
+        if (!(err instanceof TokenEngineError)) {
+          throw err;
+        }
+        if (mined) {
+          return { step, op, reason: `succeeded but the simulator reverted: ${err.message}` };
+        }
+      }
+      try {
+        await state.sim.check();
+      } catch (err) {
+        return { step, op, reason: `state mismatch: ${err instanceof Error ? err.message : err}` };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Removes chunks of ops, then lowers amounts, as long as the sequence still diverges.
+   * Every attempt replays the sequence on a fresh token, so the number of attempts is capped.
+   */
+  public async shrink(ops: FuzzOp[], divergence: Divergence, maxRuns: number) {
+    let best = { ops: ops.slice(0, divergence.step + 1), divergence };
+    let runs = 0;
+    const attempt = async (candidate: FuzzOp[]) => {
+      runs++;
+      const candidateDivergence = await this.run(candidate);
+      if (candidateDivergence) {
+        best = { ops: candidate.slice(0, candidateDivergence.step + 1), divergence: candidateDivergence };
+      }
+      return !!candidateDivergence;
+    };
+
+    for (let size = Math.floor(best.ops.length / 2); size >= 1 && runs < maxRuns; size = Math.floor(size / 2)) {
+      for (let start = 0; start < best.ops.length && runs < maxRuns; ) {
+        const candidate = [...best.ops.slice(0, start), ...best.ops.slice(start + size)];
+        if (candidate.length === 0 || !(await attempt(candidate))) {
+          start += size;
+        }
+      }
+    }
+
+    for (let i = 0; i < best.ops.length && runs < maxRuns; i++) {
+      const op = best.ops[i];
+      if (!('amount' in op) || op.amount === 1n) {
+        continue;
+      }
+      for (const amount of [1n, op.amount / 2n]) {
+        if (runs < maxRuns && (await attempt(best.ops.map((o, j) => (j === i ? { ...op, amount } : o))))) {
+          break;
+        }
+      }
+    }
+
+    this.logger(`Shrunk ${ops.length} ops to ${best.ops.length} in ${runs} runs`);
+    return best;
+  }
+
+  private async setup(): Promise<RunState> {
+    const { token, sim } = await TokenFixture.deploy(this.sandbox, this.logger, {
+      maxSupply: MAX_SUPPLY,
+      metadata: { name: 'Fuzz', symbol: 'FZZ', decimals: 0 },
+    });
+    return {
+      token,
+      sim,
+      authWits: new TokenAuthWits(token),
+      shieldManagers: this.wallets.map(wallet => new ShieldManager(token, wallet)),
+      escrowClient: new EscrowClient(token, this.sandbox.pxe),
+      shields: [],
+      escrows: [],
+    };
+  }
+
+  private address(account: number): AztecAddress {
+    return this.wallets[account].getAddress();
+  }
+
+  // Whether the shield or escrow that `op` refers to exists, ops without one are skipped.
+  private hasTarget(op: FuzzOp, { shields, escrows }: RunState) {
+    switch (op.kind) {
+      case 'redeem':
+        return shields.length > 0;
+      case 'settle':
+        return escrows.length > 0;
+      default:
+        return true;
+    }
+  }
+
+  // Sends `op` from the account it acts for, and returns what the token picked if it was mined.
+  private async execute(op: FuzzOp, state: RunState): Promise<MinedOp> {
+    const { token, authWits, shieldManagers, escrowClient, shields, escrows } = state;
+    switch (op.kind) {
+      case 'mint_public': {
+        const receipt = await token
+          .withWallet(this.wallets[op.minter])
+          .methods.mint_public(this.address(op.to), op.amount)
+          .send()
+          .wait();
+        assertMined(receipt, op.kind);
+        return {};
+      }
+      case 'mint_private': {
+        const { secretHash } = await shieldManagers[op.minter].mintPrivate(op.amount);
+        shields.push({ holder: op.minter, secretHash, amount: op.amount });
+        return { secretHash };
+      }
+      case 'transfer_public':
+      case 'transfer':
+      case 'unshield':
+      case 'shield_private': {
+        const receipt = await token
+          .withWallet(this.wallets[op.from])
+          .methods[op.kind](this.address(op.from), this.address(op.to), op.amount, 0)
+          .send()
+          .wait();
+        assertMined(receipt, op.kind);
+        return {};
+      }
+      case 'delegated_transfer':
+      case 'delegated_transfer_public': {
+        const [caller, from, to] = [this.wallets[op.caller], this.wallets[op.from], this.address(op.to)];
+        const nonce = new Fr(op.nonce);
+        const isPublic = op.kind === 'delegated_transfer_public';
+        if (op.authorized && isPublic) {
+          await authWits.authorizeTransferPublic(from, caller, to, op.amount, nonce);
+        } else if (op.authorized) {
+          await authWits.authorizeTransfer(from, caller, to, op.amount, nonce);
+        }
+        const functionName = isPublic ? 'transfer_public' : 'transfer';
+        const receipt = await token
+          .withWallet(caller)
+          .methods[functionName](from.getAddress(), to, op.amount, nonce)
+          .send()
+          .wait();
+        assertMined(receipt, functionName);
+        return {};
+      }
+      case 'shield': {
+        const { secretHash } = await shieldManagers[op.from].shield(this.address(op.from), op.amount);
+        shields.push({ holder: op.from, secretHash, amount: op.amount });
+        return { secretHash };
+      }
+      case 'redeem': {
+        const shield = shields[op.shield % shields.length];
+        await shieldManagers[shield.holder].redeem(shield.secretHash, this.address(op.to));
+        return {};
+      }
+      case 'burn':
+      case 'burn_public': {
+        const receipt = await token
+          .withWallet(this.wallets[op.from])
+          .methods[op.kind](this.address(op.from), op.amount, 0)
+          .send()
+          .wait();
+        assertMined(receipt, op.kind);
+        return {};
+      }
+      case 'escrow': {
+        const { randomness } = await escrowClient
+          .withWallet(this.wallets[op.from])
+          .escrow(this.address(op.from), this.address(op.owner), op.amount, FAR_EXPIRY);
+        escrows.push({ owner: op.owner, randomness });
+        return { randomness };
+      }
+      case 'settle': {
+        const escrow = escrows[op.escrow % escrows.length];
+        await escrowClient
+          .withWallet(this.wallets[op.caller])
+          .settle(this.address(escrow.owner), this.address(op.recipient), escrow.randomness);
+        return {};
+      }
+    }
+  }
+
+  /**
+   * Replays `op` on the simulator, with what the token picked when it was mined.
+   * Throws the `TokenEngineError` of the engine if it rejects the op.
+   */
+  private replay(op: FuzzOp, { sim, shields, escrows }: RunState, mined: MinedOp = {}) {
+    // ops the token rejected still need a secret hash for the engine to reject them too
+    const secretHash = (mined.secretHash ?? Fr.random()).toBigInt();
+    switch (op.kind) {
+      case 'mint_public':
+        return sim.mintPublic(this.address(op.minter), this.address(op.to), op.amount);
+      case 'mint_private':
+        return sim.mintPrivate(this.address(op.minter), op.amount, secretHash);
+      case 'transfer_public':
+        return sim.transferPublic(this.address(op.from), this.address(op.from), this.address(op.to), op.amount, 0n);
+      case 'transfer':
+        return sim.transfer(this.address(op.from), this.address(op.from), this.address(op.to), op.amount, 0n);
+      case 'unshield':
+        return sim.unshield(this.address(op.from), this.address(op.from), this.address(op.to), op.amount, 0n);
+      case 'shield_private':
+        return sim.shieldPrivate(this.address(op.from), this.address(op.from), this.address(op.to), op.amount, 0n);
+      case 'delegated_transfer':
+      case 'delegated_transfer_public': {
+        const [caller, from, to] = [this.address(op.caller), this.address(op.from), this.address(op.to)];
+        const name = op.kind === 'delegated_transfer_public' ? 'transfer_public' : 'transfer';
+        if (op.authorized) {
+          sim.addAuthWit(from, caller, { name, args: [from, to, op.amount, op.nonce] });
+        }
+        return name === 'transfer_public'
+          ? sim.transferPublic(caller, from, to, op.amount, op.nonce)
+          : sim.transfer(caller, from, to, op.amount, op.nonce);
+      }
+      case 'shield':
+        return sim.shield(this.address(op.from), this.address(op.from), op.amount, secretHash, 0n);
+      case 'redeem': {
+        const shield = shields[op.shield % shields.length];
+        const caller = this.address(shield.holder);
+        return sim.redeemShield(caller, this.address(op.to), shield.amount, shield.secretHash.toBigInt());
+      }
+      case 'burn':
+        return sim.burn(this.address(op.from), this.address(op.from), op.amount, 0n);
+      case 'burn_public':
+        return sim.burnPublic(this.address(op.from), this.address(op.from), op.amount, 0n);
+      case 'escrow': {
+        const [from, owner] = [this.address(op.from), this.address(op.owner)];
+        return sim.escrow(from, from, owner, op.amount, FAR_EXPIRY, 0n, mined.randomness?.toBigInt());
+      }
+      case 'settle': {
+        const escrow = escrows[op.escrow % escrows.length];
+        const [caller, owner] = [this.address(op.caller), this.address(escrow.owner)];
+        return sim.settleEscrow(caller, owner, this.address(op.recipient), escrow.randomness.toBigInt(), 0n);
+      }
+    }
+  }
+}